@@ -1,15 +1,24 @@
 import React, { memo, useMemo } from 'react'
 import { View, ViewProps } from '@tarojs/components'
+import { getItemElementId, getPageItemClassName } from '../utils/virtualList'
+
+import type { ItemKey } from '../types'
 
 interface VirtualItemProps<T = any> extends ViewProps {
+    /** 所属列表的 listId，用于生成节点 class 与 id */
+    listId: string
     /** 项目数据 */
     item: T
     /** 页面索引 */
     pageIndex: number
     /** 项目索引 */
     index: number
+    /** 项目唯一标识，传入时用于生成节点 id */
+    itemKey?: ItemKey
+    /** 是否已选中 */
+    selected?: boolean
     /** 渲染函数 */
-    renderItem: (item: T, pageIndex: number, index: number) => React.ReactElement
+    renderItem: (item: T, pageIndex: number, index: number, selected: boolean) => React.ReactElement
 }
 
 /**
@@ -17,27 +26,27 @@ interface VirtualItemProps<T = any> extends ViewProps {
  * 使用memo和useMemo进一步优化渲染性能
  */
 export const VirtualItem = memo<VirtualItemProps>(
-    ({ item, pageIndex, index, renderItem, className, style, ...restProps }) => {
+    ({ listId, item, pageIndex, index, itemKey, selected = false, renderItem, className, style, ...restProps }) => {
         // 🚀 优化：缓存类名和ID，避免重复计算
         const { itemClassName, itemId } = useMemo(
             () => ({
-                itemClassName: `vl-item ${className || ''}`.trim(),
-                itemId: `vl-item-${pageIndex}-${index}`
+                itemClassName: `vl-item ${getPageItemClassName(listId, pageIndex)} ${className || ''}`.trim(),
+                itemId: getItemElementId(listId, pageIndex, index, itemKey)
             }),
-            [className, pageIndex, index]
+            [className, listId, pageIndex, index, itemKey]
         )
 
         // 🚀 优化：缓存渲染内容，避免函数重复调用
         const renderedContent = useMemo(() => {
             try {
-                return renderItem(item, pageIndex, index)
+                return renderItem(item, pageIndex, index, selected)
             } catch (error) {
                 if (process.env.NODE_ENV === 'development') {
                     console.error(`虚拟列表项渲染错误 (page: ${pageIndex}, index: ${index}):`, error)
                 }
                 return <View>渲染错误</View>
             }
-        }, [item, pageIndex, index, renderItem])
+        }, [item, pageIndex, index, selected, renderItem])
 
         // 🚀 优化：合并样式，避免对象重新创建
         const mergedStyle = useMemo(() => {
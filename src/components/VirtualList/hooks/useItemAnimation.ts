@@ -0,0 +1,230 @@
+import { useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react'
+import type { CSSProperties } from 'react'
+import { getAxisKeys } from '../utils/virtualList'
+
+import type {
+    GetItemKeyFunction,
+    ItemAnimationConfig,
+    ItemKey,
+    VirtualListCoreMethods,
+    VirtualListDirection,
+    VirtualListSegment
+} from '../types'
+
+// 默认动画时长（毫秒）
+const DEFAULT_ANIMATION_DURATION = 300
+
+interface UseItemAnimationOptions<T> {
+    enabled: boolean
+    config?: boolean | ItemAnimationConfig
+    list: T[]
+    renderList: VirtualListSegment<T>[]
+    direction: VirtualListDirection
+    getItemKey?: GetItemKeyFunction<T>
+    getPageStart: (pageIndex: number) => number
+}
+
+/**
+ * 被移除的列表项，动画期间在原位置淡出
+ * - offset 为相对列表内容起始边的位置
+ */
+export interface RemovedItem<T> {
+    key: ItemKey
+    item: T
+    pageIndex: number
+    itemIndex: number
+    offset: number
+    size: number
+}
+
+interface ListSnapshot<T> {
+    list: T[]
+    renderList: VirtualListSegment<T>[]
+    /** 变化前已渲染的列表项的位置 */
+    offsets: Map<ItemKey, number>
+    /** 变化前列表中所有的 key */
+    keys: Set<ItemKey>
+    removed: RemovedItem<T>[]
+}
+
+interface AnimationState<T> {
+    /** start: 应用动画起点，active: 过渡到终点 */
+    phase: 'start' | 'active'
+    moves: Map<ItemKey, number>
+    inserted: Set<ItemKey>
+    removed: RemovedItem<T>[]
+}
+
+/**
+ * 列表项插入、移除与移动动画
+ * - list 变化前记录已渲染列表项的位置，新的列表渲染后按 key 对比：新增项淡入，移除项在原位置淡出，移动项从原位置平移到新位置
+ * - 动画只使用 transform 与 opacity，移除项绝对定位，布局与测量始终对应变化后的列表，动画期间 getItemScrollTop 返回最终位置
+ * - 只有已渲染的页面参与动画，占位符页面只更新高度
+ */
+export const useItemAnimation = <T>({
+    enabled,
+    config,
+    list,
+    renderList,
+    direction,
+    getItemKey,
+    getPageStart
+}: UseItemAnimationOptions<T>) => {
+    const [animation, setAnimation] = useState<AnimationState<T> | null>(null)
+    // 通过 ref 引用 useVirtualList 的方法
+    const methodsRef = useRef<VirtualListCoreMethods | null>(null)
+    const snapshotRef = useRef<ListSnapshot<T> | null>(null)
+    const prevListRef = useRef(list)
+    const timerRef = useRef<NodeJS.Timeout | null>(null)
+    const frameRef = useRef<number | null>(null)
+
+    const axis = useMemo(() => getAxisKeys(direction), [direction])
+    const duration = (typeof config === 'object' ? config.duration : undefined) ?? DEFAULT_ANIMATION_DURATION
+
+    const clearTimers = useCallback(() => {
+        if (timerRef.current) {
+            clearTimeout(timerRef.current)
+            timerRef.current = null
+        }
+        if (frameRef.current !== null) {
+            cancelAnimationFrame(frameRef.current)
+            frameRef.current = null
+        }
+    }, [])
+
+    // list 变化后、useVirtualList 重新分页前记录已渲染列表项的位置，此时渲染的仍是变化前的列表
+    useLayoutEffect(() => {
+        const prevList = prevListRef.current
+        prevListRef.current = list
+        const methods = methodsRef.current
+        if (!enabled || !getItemKey || !methods || prevList === list) return
+
+        const nextKeys = new Set(list.map((item, index) => getItemKey(item, index)))
+        const offsets = new Map<ItemKey, number>()
+        const removed: RemovedItem<T>[] = []
+        // 列表内容起始于顶部内容之后
+        const contentStart = methods.getPageScrollTop(0).scrollTop
+
+        renderList.forEach((page, pageIndex) => {
+            if (!Array.isArray(page)) return
+            const start = getPageStart(pageIndex)
+            page.forEach((item, itemIndex) => {
+                const key = getItemKey(item, start + itemIndex)
+                const { scrollTop, height } = methods.getItemScrollTop(start + itemIndex)
+                offsets.set(key, scrollTop)
+                if (!nextKeys.has(key)) {
+                    removed.push({ key, item, pageIndex, itemIndex, offset: scrollTop - contentStart, size: height })
+                }
+            })
+        })
+
+        snapshotRef.current = {
+            list,
+            renderList,
+            offsets,
+            keys: new Set(prevList.map((item, index) => getItemKey(item, index))),
+            removed
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [list])
+
+    // 新的列表渲染后、绘制前应用动画起点，下一帧过渡到终点
+    useLayoutEffect(() => {
+        const snapshot = snapshotRef.current
+        const methods = methodsRef.current
+        if (!snapshot || !methods || !getItemKey || snapshot.list !== list || snapshot.renderList === renderList) {
+            return
+        }
+
+        // 已渲染的页面与当前列表一致时，说明重新分页后的列表已渲染
+        const isCurrent = renderList.every(
+            (page, pageIndex) =>
+                !Array.isArray(page) ||
+                page.every((item, itemIndex) => list[getPageStart(pageIndex) + itemIndex] === item)
+        )
+        if (!isCurrent) return
+        snapshotRef.current = null
+
+        const moves = new Map<ItemKey, number>()
+        const inserted = new Set<ItemKey>()
+        renderList.forEach((page, pageIndex) => {
+            if (!Array.isArray(page)) return
+            const start = getPageStart(pageIndex)
+            page.forEach((item, itemIndex) => {
+                const key = getItemKey(item, start + itemIndex)
+                const prevOffset = snapshot.offsets.get(key)
+                if (prevOffset !== undefined) {
+                    const delta = prevOffset - methods.getItemScrollTop(start + itemIndex).scrollTop
+                    if (Math.abs(delta) >= 1) moves.set(key, delta)
+                } else if (!snapshot.keys.has(key)) {
+                    inserted.add(key)
+                }
+            })
+        })
+
+        clearTimers()
+        if (moves.size === 0 && inserted.size === 0 && snapshot.removed.length === 0) {
+            setAnimation(null)
+            return
+        }
+
+        setAnimation({ phase: 'start', moves, inserted, removed: snapshot.removed })
+        frameRef.current = requestAnimationFrame(() => {
+            frameRef.current = null
+            setAnimation((prev) => prev && { ...prev, phase: 'active' })
+            timerRef.current = setTimeout(() => {
+                timerRef.current = null
+                setAnimation(null)
+            }, duration)
+        })
+    }, [list, renderList, getItemKey, getPageStart, duration, clearTimers])
+
+    useEffect(() => clearTimers, [clearTimers])
+
+    // 列表项的动画样式，不参与动画时返回 undefined
+    const getItemAnimationStyle = useCallback(
+        (key: ItemKey | undefined): CSSProperties | undefined => {
+            if (!animation || key === undefined) return undefined
+            const active = animation.phase === 'active'
+            const delta = animation.moves.get(key)
+            if (delta !== undefined) {
+                const translate = axis.start === 'top' ? 'translateY' : 'translateX'
+                return {
+                    transform: active ? `${translate}(0px)` : `${translate}(${delta}px)`,
+                    transition: active ? `transform ${duration}ms ease` : 'none'
+                }
+            }
+            if (animation.inserted.has(key)) {
+                return {
+                    opacity: active ? 1 : 0,
+                    transition: active ? `opacity ${duration}ms ease` : 'none'
+                }
+            }
+            return undefined
+        },
+        [animation, axis, duration]
+    )
+
+    // 被移除的列表项的样式，绝对定位在原位置，不影响布局与测量
+    const getRemovedItemStyle = useCallback(
+        (removedItem: RemovedItem<T>): CSSProperties => ({
+            position: 'absolute',
+            [axis.start]: `${removedItem.offset}px`,
+            [axis.size]: `${removedItem.size}px`,
+            [axis.crossStart]: 0,
+            [axis.crossSize]: '100%',
+            overflow: 'hidden',
+            pointerEvents: 'none',
+            opacity: animation?.phase === 'active' ? 0 : 1,
+            transition: animation?.phase === 'active' ? `opacity ${duration}ms ease` : 'none'
+        }),
+        [animation, axis, duration]
+    )
+
+    return {
+        methodsRef,
+        removedItems: animation?.removed,
+        getItemAnimationStyle,
+        getRemovedItemStyle
+    }
+}
@@ -0,0 +1,258 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import Taro from '@tarojs/taro'
+import { ITouchEvent } from '@tarojs/components'
+import { SelectorUtils, QueryUtils, getAxisKeys } from '../utils/virtualList'
+
+import type {
+    PlatformAdapter,
+    ReorderHandler,
+    VirtualListCoreMethods,
+    VirtualListDirection,
+    VirtualListScope
+} from '../types'
+
+// 手指距离视图边缘小于该值时自动滚动，越靠近边缘滚动越快
+const AUTO_SCROLL_EDGE = 60
+const AUTO_SCROLL_MAX_STEP = 16
+const AUTO_SCROLL_INTERVAL = 16
+
+interface UseReorderOptions {
+    enabled: boolean
+    listId: string
+    scope?: VirtualListScope
+    adapter: PlatformAdapter
+    direction: VirtualListDirection
+    listLength: number
+    getPageStart: (pageIndex: number) => number
+    pinPages: (pageIndexes: number[]) => void
+    onReorder?: ReorderHandler
+}
+
+/**
+ * 拖拽中的列表项
+ * - position 为拖拽预览相对视图起始边的位置
+ * - indicator 为落点指示线相对视图起始边的位置
+ */
+export interface DragState {
+    fromIndex: number
+    toIndex: number
+    pageIndex: number
+    itemIndex: number
+    size: number
+    position: number
+    indicator: number
+}
+
+/**
+ * 拖拽排序
+ * - 长按列表项开始拖拽，拖拽预览跟随手指移动，手指靠近视图边缘时自动滚动
+ * - 落点由 getItemScrollTop（基于已测量的页面高度）计算，经过的占位符页面渲染为实际内容
+ * - 松手后触发 onReorder(fromIndex, toIndex)，toIndex 为移动后列表项所在的索引
+ */
+export const useReorder = ({
+    enabled,
+    listId,
+    scope,
+    adapter,
+    direction,
+    listLength,
+    getPageStart,
+    pinPages,
+    onReorder
+}: UseReorderOptions) => {
+    const [drag, setDrag] = useState<DragState | null>(null)
+    // 通过 ref 引用 useVirtualList 的方法，避免方法变化时重新绑定事件
+    const methodsRef = useRef<VirtualListCoreMethods | null>(null)
+
+    const axis = useMemo(() => getAxisKeys(direction), [direction])
+    const currentPageRef = useRef<Taro.PageInstance>(Taro.getCurrentInstance().page!)
+    const queryUtils = useMemo(
+        () => new QueryUtils(new SelectorUtils(listId), adapter, scope ?? currentPageRef.current, direction),
+        [listId, adapter, scope, direction]
+    )
+
+    const onReorderRef = useRef(onReorder)
+    onReorderRef.current = onReorder
+
+    // 拖拽过程中的数据，触摸事件频繁触发，不经过状态读取
+    const dragRef = useRef<DragState | null>(null)
+    const touchRef = useRef(0)
+    const touchingRef = useRef(false)
+    const viewRef = useRef({ start: 0, size: 0, scrollTop: 0, maxScrollTop: 0 })
+    // 手指按下位置相对列表项起始边的距离
+    const grabOffsetRef = useRef(0)
+    const autoScrollTimerRef = useRef<NodeJS.Timeout | null>(null)
+    const autoScrollingRef = useRef(false)
+
+    const getTouchPosition = useCallback(
+        (event: ITouchEvent) => {
+            const touch = event.touches?.[0] || event.changedTouches?.[0]
+            return touch ? (axis.start === 'top' ? touch.clientY : touch.clientX) : touchRef.current
+        },
+        [axis]
+    )
+
+    // 根据手指位置计算拖拽预览、落点与落点指示线
+    const updateDrag = useCallback(() => {
+        const current = dragRef.current
+        const methods = methodsRef.current
+        if (!current || !methods) return
+
+        const { start, size: viewSize, scrollTop } = viewRef.current
+        const position = touchRef.current - start - grabOffsetRef.current
+        // 以拖拽项的中点所在的列表项作为落点
+        const center = scrollTop + position + current.size / 2
+        const toIndex = Math.min(Math.max(methods.getIndexAtOffset(center), 0), listLength - 1)
+        const target = methods.getItemScrollTop(toIndex)
+        const indicator =
+            (toIndex > current.fromIndex ? target.scrollTop + target.height : target.scrollTop) - scrollTop
+
+        const next = {
+            ...current,
+            toIndex,
+            position: Math.min(Math.max(position, -current.size / 2), viewSize - current.size / 2),
+            indicator
+        }
+        dragRef.current = next
+        setDrag(next)
+
+        // 落点所在的页面为占位符时渲染为实际内容，拖拽项所在的页面保持渲染
+        if (toIndex !== current.toIndex) {
+            pinPages([current.pageIndex, target.pageIndex])
+        }
+    }, [listLength, pinPages])
+
+    const stopAutoScroll = useCallback(() => {
+        autoScrollingRef.current = false
+        if (autoScrollTimerRef.current) {
+            clearTimeout(autoScrollTimerRef.current)
+            autoScrollTimerRef.current = null
+        }
+    }, [])
+
+    // 手指靠近视图边缘时持续滚动，直到离开边缘区域或滚动到头
+    const autoScroll = useCallback(async () => {
+        autoScrollTimerRef.current = null
+        const view = viewRef.current
+        const pointer = touchRef.current - view.start
+        let step = 0
+        if (pointer < AUTO_SCROLL_EDGE) {
+            step = -AUTO_SCROLL_MAX_STEP * Math.min(1, (AUTO_SCROLL_EDGE - pointer) / AUTO_SCROLL_EDGE)
+        } else if (pointer > view.size - AUTO_SCROLL_EDGE) {
+            step = AUTO_SCROLL_MAX_STEP * Math.min(1, (pointer - view.size + AUTO_SCROLL_EDGE) / AUTO_SCROLL_EDGE)
+        }
+
+        const scrollTop = Math.min(Math.max(view.scrollTop + step, 0), view.maxScrollTop)
+        if (!dragRef.current || step === 0 || scrollTop === view.scrollTop) {
+            autoScrollingRef.current = false
+            return
+        }
+
+        autoScrollingRef.current = true
+        view.scrollTop = scrollTop
+        await queryUtils.scrollTo(scrollTop)
+        updateDrag()
+
+        if (dragRef.current) {
+            autoScrollTimerRef.current = setTimeout(autoScroll, AUTO_SCROLL_INTERVAL)
+        } else {
+            autoScrollingRef.current = false
+        }
+    }, [queryUtils, updateDrag])
+
+    const handleTouchStart = useCallback(
+        (event: ITouchEvent) => {
+            touchRef.current = getTouchPosition(event)
+            touchingRef.current = true
+        },
+        [getTouchPosition]
+    )
+
+    // 长按开始拖拽，由手指位置找到被按下的列表项
+    const handleLongPress = useCallback(async () => {
+        const methods = methodsRef.current
+        if (!enabled || !methods || dragRef.current || listLength === 0) return
+
+        try {
+            const [start, info] = await Promise.all([queryUtils.getScrollViewStart(), queryUtils.getScrollViewInfo()])
+            const offset = info.scrollTop + touchRef.current - start
+            const fromIndex = methods.getIndexAtOffset(offset)
+            const { scrollTop: itemStart, height: size, pageIndex } = methods.getItemScrollTop(fromIndex)
+            // 查询期间已松手，或按在顶部内容、底部内容上时不开始拖拽
+            if (!touchingRef.current || fromIndex < 0 || offset < itemStart || offset > itemStart + size) return
+
+            viewRef.current = {
+                start,
+                size: info.height,
+                scrollTop: info.scrollTop,
+                maxScrollTop: Math.max(0, info.scrollHeight - info.height)
+            }
+            grabOffsetRef.current = offset - itemStart
+            dragRef.current = {
+                fromIndex,
+                toIndex: fromIndex,
+                pageIndex,
+                itemIndex: fromIndex - getPageStart(pageIndex),
+                size,
+                position: itemStart - info.scrollTop,
+                indicator: itemStart - info.scrollTop
+            }
+            pinPages([pageIndex])
+            updateDrag()
+        } catch (error) {
+            if (process.env.NODE_ENV === 'development') {
+                console.error('开始拖拽时出错:', error)
+            }
+        }
+    }, [enabled, listLength, queryUtils, getPageStart, pinPages, updateDrag])
+
+    const handleTouchMove = useCallback(
+        (event: ITouchEvent) => {
+            touchRef.current = getTouchPosition(event)
+            if (!dragRef.current) return
+
+            updateDrag()
+            if (!autoScrollingRef.current) {
+                autoScroll()
+            }
+        },
+        [getTouchPosition, updateDrag, autoScroll]
+    )
+
+    const handleTouchEnd = useCallback(() => {
+        touchingRef.current = false
+        const current = dragRef.current
+        if (!current) return
+
+        stopAutoScroll()
+        dragRef.current = null
+        setDrag(null)
+        pinPages([])
+
+        if (current.toIndex !== current.fromIndex) {
+            onReorderRef.current?.(current.fromIndex, current.toIndex)
+        }
+    }, [stopAutoScroll, pinPages])
+
+    useEffect(() => stopAutoScroll, [stopAutoScroll])
+
+    const touchHandlers = useMemo(
+        () =>
+            enabled
+                ? {
+                      onTouchStart: handleTouchStart,
+                      onLongPress: handleLongPress,
+                      onTouchMove: handleTouchMove,
+                      onTouchEnd: handleTouchEnd,
+                      onTouchCancel: handleTouchEnd
+                  }
+                : undefined,
+        [enabled, handleTouchStart, handleLongPress, handleTouchMove, handleTouchEnd]
+    )
+
+    return {
+        drag,
+        methodsRef,
+        touchHandlers
+    }
+}
@@ -0,0 +1,86 @@
+import { useState, useCallback, useMemo, useRef } from 'react'
+import { flattenSections } from '../utils/virtualList'
+
+import type { ScrollToOptions, SectionListEntry, VirtualListCoreMethods, VirtualListSection } from '../types'
+
+interface UseSectionsOptions<T> {
+    sections?: VirtualListSection<T>[]
+    stickySectionHeader: boolean
+}
+
+/**
+ * 分组列表逻辑
+ * - 将分组展开为分组头 + 列表项的扁平列表，交给 useVirtualList 分页
+ * - 吸顶分组头独立于分页渲染，所在页面变为占位符时也不会丢失
+ * - 吸顶分组在 ScrollView 的每次滚动事件中按滚动位置同步计算，不经过节流
+ */
+export const useSections = <T>({ sections, stickySectionHeader }: UseSectionsOptions<T>) => {
+    const [stickyIndex, setStickyIndex] = useState(-1)
+    // useVirtualList 的方法在本 Hook 之后才创建，通过 ref 引用
+    const methodsRef = useRef<VirtualListCoreMethods | null>(null)
+
+    // 复用未变化的展开项，分组数据变化时只增量更新变化的部分
+    const entryCacheRef = useRef(new WeakMap<object, SectionListEntry<T>>())
+    const { list, sectionStarts } = useMemo(() => flattenSections(sections, entryCacheRef.current), [sections])
+    const sectionStartsRef = useRef(sectionStarts)
+    sectionStartsRef.current = sectionStarts
+
+    // 二分查找分组头已滚过视图顶部的最后一个分组
+    const updateStickyIndex = useCallback((scrollTop: number) => {
+        const methods = methodsRef.current
+        const starts = sectionStartsRef.current
+        if (!methods || starts.length === 0) {
+            setStickyIndex(-1)
+            return
+        }
+
+        let low = 0
+        let high = starts.length - 1
+        let found = -1
+        while (low <= high) {
+            const mid = (low + high) >> 1
+            if (methods.getItemScrollTop(starts[mid]).scrollTop <= scrollTop) {
+                found = mid
+                low = mid + 1
+            } else {
+                high = mid - 1
+            }
+        }
+        setStickyIndex(found)
+    }, [])
+
+    // 滚动事件中的滚动位置，horizontal 模式下为 scrollLeft
+    const handleStickyScroll = useCallback(
+        (scrollOffset: number) => {
+            if (sections && stickySectionHeader) {
+                updateStickyIndex(scrollOffset)
+            }
+        },
+        [sections, stickySectionHeader, updateStickyIndex]
+    )
+
+    // 将指定分组（或分组内的指定项）滚动到视图顶部
+    const scrollToSection = useCallback(
+        async (sectionIndex: number, itemIndex?: number, options?: number | ScrollToOptions): Promise<boolean> => {
+            const start = sectionStartsRef.current[sectionIndex]
+            if (!methodsRef.current || start === undefined) {
+                return false
+            }
+            // 分组头占据分组的第一项
+            const index = itemIndex === undefined ? start : start + 1 + itemIndex
+            return methodsRef.current.scrollTo(index, options)
+        },
+        []
+    )
+
+    const stickySection = stickySectionHeader && sections ? sections[stickyIndex] : undefined
+
+    return {
+        list,
+        methodsRef,
+        handleStickyScroll,
+        scrollToSection,
+        stickySection,
+        stickyIndex
+    }
+}
@@ -0,0 +1,137 @@
+import { useState, useCallback, useMemo, useRef } from 'react'
+
+import type {
+    GetItemKeyFunction,
+    ItemKey,
+    SelectionChangeHandler,
+    SelectionMode,
+    VirtualListSelectionMethods
+} from '../types'
+
+interface UseSelectionOptions<T> {
+    list: T[]
+    getItemKey?: GetItemKeyFunction<T>
+    /** 列表项是否可选中，如分组模式下的分组头不可选中 */
+    isSelectable?: (item: T) => boolean
+    selectionMode?: SelectionMode
+    selectedKeys?: ItemKey[]
+    defaultSelectedKeys?: ItemKey[]
+    onSelectionChange?: SelectionChangeHandler
+}
+
+/**
+ * 选中状态管理
+ * - 选中状态按 key 保存在整个列表上，与分页渲染无关，页面被回收为占位符后依然保留
+ * - 传入 selectedKeys 时为受控模式，否则由组件维护
+ * - 未传入 getItemKey 时按列表项索引作为 key
+ */
+export const useSelection = <T>({
+    list,
+    getItemKey,
+    isSelectable,
+    selectionMode,
+    selectedKeys,
+    defaultSelectedKeys,
+    onSelectionChange
+}: UseSelectionOptions<T>) => {
+    const [innerSelectedKeys, setInnerSelectedKeys] = useState(() => new Set(defaultSelectedKeys))
+    const isControlled = selectedKeys !== undefined
+    const selectedKeySet = useMemo(
+        () => (isControlled ? new Set(selectedKeys) : innerSelectedKeys),
+        [isControlled, selectedKeys, innerSelectedKeys]
+    )
+
+    // 方法通过 ref 读取最新的状态，保持引用稳定，避免已渲染的列表项全部重新渲染
+    const stateRef = useRef({ list, getItemKey, isSelectable, selectionMode, selectedKeySet, onSelectionChange })
+    stateRef.current = { list, getItemKey, isSelectable, selectionMode, selectedKeySet, onSelectionChange }
+
+    const getSelectionKey = useCallback((item: T, index: number): ItemKey => {
+        const keyFn = stateRef.current.getItemKey
+        return keyFn ? keyFn(item, index) : index
+    }, [])
+
+    const canSelect = useCallback((item: T) => {
+        const { selectionMode: mode, isSelectable: selectable } = stateRef.current
+        return Boolean(mode) && (!selectable || selectable(item))
+    }, [])
+
+    const commitSelection = useCallback(
+        (next: Set<ItemKey>) => {
+            if (!isControlled) {
+                setInnerSelectedKeys(next)
+            }
+            stateRef.current.onSelectionChange?.(Array.from(next))
+        },
+        [isControlled]
+    )
+
+    const isSelected = useCallback(
+        (item: T, index: number) =>
+            Boolean(selectionMode) && selectedKeySet.has(getSelectionKey(item, index)) && canSelect(item),
+        [selectionMode, selectedKeySet, getSelectionKey, canSelect]
+    )
+
+    const toggleSelection = useCallback(
+        (index: number) => {
+            const { list: items, selectionMode: mode, selectedKeySet: current } = stateRef.current
+            const item = items[index]
+            if (index < 0 || index >= items.length || !canSelect(item)) return
+
+            const key = getSelectionKey(item, index)
+            if (current.has(key)) {
+                const next = new Set(current)
+                next.delete(key)
+                commitSelection(next)
+            } else {
+                commitSelection(mode === 'single' ? new Set([key]) : new Set(current).add(key))
+            }
+        },
+        [canSelect, getSelectionKey, commitSelection]
+    )
+
+    // 选中区间内的所有可选中项，保留已有的选中项
+    const selectRange = useCallback(
+        (from: number, to: number) => {
+            const { list: items, selectionMode: mode, selectedKeySet: current } = stateRef.current
+            if (mode !== 'multiple') {
+                if (process.env.NODE_ENV === 'development') {
+                    console.warn('VirtualList: selectRange 仅在 selectionMode 为 multiple 时可用')
+                }
+                return
+            }
+
+            const start = Math.max(0, Math.min(from, to))
+            const end = Math.min(items.length - 1, Math.max(from, to))
+            const next = new Set(current)
+            for (let i = start; i <= end; i++) {
+                if (canSelect(items[i])) {
+                    next.add(getSelectionKey(items[i], i))
+                }
+            }
+            commitSelection(next)
+        },
+        [canSelect, getSelectionKey, commitSelection]
+    )
+
+    const selectAll = useCallback(() => {
+        selectRange(0, stateRef.current.list.length - 1)
+    }, [selectRange])
+
+    const clearSelection = useCallback(() => {
+        if (stateRef.current.selectedKeySet.size > 0) {
+            commitSelection(new Set())
+        }
+    }, [commitSelection])
+
+    const getSelectedKeys = useCallback(() => Array.from(stateRef.current.selectedKeySet), [])
+
+    const methods: VirtualListSelectionMethods = useMemo(
+        () => ({ selectAll, clearSelection, selectRange, toggleSelection, getSelectedKeys }),
+        [selectAll, clearSelection, selectRange, toggleSelection, getSelectedKeys]
+    )
+
+    return {
+        isSelected,
+        methods
+    }
+}
@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useRef } from 'react'
+import Taro from '@tarojs/taro'
+import { SelectorUtils, getItemElementId } from '../utils/virtualList'
+
+import type {
+    GetItemKeyFunction,
+    ItemKey,
+    PlatformAdapter,
+    ViewabilityConfig,
+    ViewableItem,
+    ViewableItemsChangedHandler,
+    VirtualListScope,
+    VirtualListSegment,
+    VisibilityObserver
+} from '../types'
+
+// 默认曝光规则：可见一半以上并持续 1 秒
+const DEFAULT_VISIBLE_RATIO = 0.5
+const DEFAULT_MINIMUM_VIEW_TIME = 1000
+
+interface UseViewabilityOptions<T> {
+    listId: string
+    scope?: VirtualListScope
+    adapter: PlatformAdapter
+    renderList: VirtualListSegment<T>[]
+    getPageStart: (pageIndex: number) => number
+    getItemKey?: GetItemKeyFunction<T>
+    viewabilityConfig?: ViewabilityConfig
+    onViewableItemsChanged?: ViewableItemsChangedHandler<T>
+}
+
+interface ObservedPage<T> {
+    page: T[]
+    start: number
+    observer: VisibilityObserver
+}
+
+interface PendingItem {
+    pageIndex: number
+    ratio: number
+    timer: NodeJS.Timeout
+}
+
+/**
+ * 曝光统计
+ * - 每个已渲染的页面创建一个观察器，逐项监听列表项在列表中的可见比例
+ * - 可见比例达到 itemVisibleRatio 并持续 minimumViewTime 后记为曝光，同一时刻的曝光合并上报
+ * - 页面被回收为占位符时断开观察器，已曝光的列表项重新渲染后不会重复上报
+ */
+export const useViewability = <T>({
+    listId,
+    scope,
+    adapter,
+    renderList,
+    getPageStart,
+    getItemKey,
+    viewabilityConfig,
+    onViewableItemsChanged
+}: UseViewabilityOptions<T>) => {
+    const currentPageRef = useRef<Taro.PageInstance>(Taro.getCurrentInstance().page!)
+    const scopeRef = useRef<VirtualListScope>(scope ?? currentPageRef.current)
+    scopeRef.current = scope ?? currentPageRef.current
+    const selectorUtils = useMemo(() => new SelectorUtils(listId), [listId])
+
+    const pageObserversRef = useRef(new Map<number, ObservedPage<T>>())
+    // 可见比例已达标、等待满足最短可见时长的列表项，按节点 id 记录
+    const pendingRef = useRef(new Map<string, PendingItem>())
+    // 已曝光的列表项，有 key 时按 key 去重，否则按对象引用去重，基础类型按索引去重
+    const exposedKeysRef = useRef(new Set<ItemKey>())
+    const exposedItemsRef = useRef(new WeakSet<object>())
+    // 待合并上报的曝光项
+    const batchRef = useRef<ViewableItem<T>[]>([])
+    const batchTimerRef = useRef<ReturnType<typeof setTimeout>>()
+
+    const onViewableItemsChangedRef = useRef(onViewableItemsChanged)
+    onViewableItemsChangedRef.current = onViewableItemsChanged
+    const getItemKeyRef = useRef(getItemKey)
+    getItemKeyRef.current = getItemKey
+
+    const enabled = Boolean(onViewableItemsChanged)
+    const visibleRatio = viewabilityConfig?.itemVisibleRatio ?? DEFAULT_VISIBLE_RATIO
+    const minimumViewTime = viewabilityConfig?.minimumViewTime ?? DEFAULT_MINIMUM_VIEW_TIME
+
+    useEffect(() => {
+        if (!enabled) return
+
+        const pageObservers = pageObserversRef.current
+        const pending = pendingRef.current
+
+        const getExposeKey = (item: T, index: number, key?: ItemKey) => {
+            if (key !== undefined) return key
+            return typeof item === 'object' && item !== null ? item : index
+        }
+
+        const isExposed = (target: ItemKey | object) =>
+            typeof target === 'object' ? exposedItemsRef.current.has(target) : exposedKeysRef.current.has(target)
+
+        const markExposed = (target: ItemKey | object) => {
+            if (typeof target === 'object') {
+                exposedItemsRef.current.add(target)
+            } else {
+                exposedKeysRef.current.add(target)
+            }
+        }
+
+        const report = (viewable: ViewableItem<T>) => {
+            batchRef.current.push(viewable)
+            if (batchRef.current.length > 1) return
+            batchTimerRef.current = setTimeout(() => {
+                const items = batchRef.current
+                batchRef.current = []
+                batchTimerRef.current = undefined
+                onViewableItemsChangedRef.current?.(items)
+            }, 0)
+        }
+
+        const clearPending = (id: string) => {
+            const entry = pending.get(id)
+            if (entry) {
+                clearTimeout(entry.timer)
+                pending.delete(id)
+            }
+        }
+
+        const disconnectPage = (pageIndex: number) => {
+            const observed = pageObservers.get(pageIndex)
+            if (!observed) return
+            try {
+                observed.observer.disconnect()
+            } catch (error) {
+                if (process.env.NODE_ENV === 'development') {
+                    console.warn(`清理曝光观察器 ${pageIndex} 时出错:`, error)
+                }
+            }
+            pageObservers.delete(pageIndex)
+            pending.forEach((entry, id) => {
+                if (entry.pageIndex === pageIndex) clearPending(id)
+            })
+        }
+
+        const observePage = (page: T[], pageIndex: number) => {
+            const start = getPageStart(pageIndex)
+            // 节点 id 到页内索引的映射
+            const positions = new Map<string, number>()
+            page.forEach((item, pos) => {
+                const key = getItemKeyRef.current?.(item, start + pos)
+                positions.set(getItemElementId(listId, pageIndex, pos, key), pos)
+            })
+
+            try {
+                const observer = adapter.observe(
+                    selectorUtils.getPageItemClass(pageIndex),
+                    {
+                        root: selectorUtils.getVlSelector(),
+                        thresholds: [0, visibleRatio, 1],
+                        observeAll: true
+                    },
+                    ({ id = '', intersectionRatio: ratio }) => {
+                        const pos = positions.get(id)
+                        if (pos === undefined) return
+
+                        if (ratio < visibleRatio) {
+                            clearPending(id)
+                            return
+                        }
+
+                        const entry = pending.get(id)
+                        if (entry) {
+                            entry.ratio = ratio
+                            return
+                        }
+
+                        const item = page[pos]
+                        const index = start + pos
+                        const key = getItemKeyRef.current?.(item, index)
+                        const exposeKey = getExposeKey(item, index, key)
+                        if (isExposed(exposeKey)) return
+
+                        // 持续可见达到最短时长后记为曝光
+                        const timer = setTimeout(() => {
+                            const current = pending.get(id)
+                            pending.delete(id)
+                            if (!current || isExposed(exposeKey)) return
+                            markExposed(exposeKey)
+                            report({ item, index, key, ratio: current.ratio })
+                        }, minimumViewTime)
+                        pending.set(id, { pageIndex, ratio, timer })
+                    },
+                    scopeRef.current
+                )
+
+                pageObservers.set(pageIndex, { page, start, observer })
+            } catch (error) {
+                if (process.env.NODE_ENV === 'development') {
+                    console.error(`页面${pageIndex}曝光观察器创建失败:`, error)
+                }
+            }
+        }
+
+        // 等待页面节点渲染后再观察，页面数据或起始索引变化时重新观察
+        const frame = requestAnimationFrame(() => {
+            renderList.forEach((page, pageIndex) => {
+                const observed = pageObservers.get(pageIndex)
+                const isRendered = Array.isArray(page) && page.length > 0
+                if (observed && observed.page === page && observed.start === getPageStart(pageIndex)) return
+                if (observed) disconnectPage(pageIndex)
+                if (isRendered) observePage(page, pageIndex)
+            })
+            pageObservers.forEach((_, pageIndex) => {
+                if (pageIndex >= renderList.length) disconnectPage(pageIndex)
+            })
+        })
+
+        return () => cancelAnimationFrame(frame)
+    }, [enabled, renderList, getPageStart, listId, scope, adapter, selectorUtils, visibleRatio, minimumViewTime])
+
+    // 曝光规则、列表 id、作用域变化或卸载时断开所有观察器，由上面的 effect 按新规则重新观察
+    useEffect(() => {
+        const pageObservers = pageObserversRef.current
+        const pending = pendingRef.current
+        return () => {
+            pageObservers.forEach(({ observer }) => {
+                try {
+                    observer.disconnect()
+                } catch {
+                    // 页面已销毁时忽略
+                }
+            })
+            pageObservers.clear()
+            pending.forEach(({ timer }) => clearTimeout(timer))
+            pending.clear()
+        }
+    }, [enabled, listId, scope, adapter, selectorUtils, visibleRatio, minimumViewTime])
+
+    // 卸载时丢弃尚未上报的曝光项，避免卸载后触发回调
+    useEffect(() => {
+        return () => {
+            clearTimeout(batchTimerRef.current)
+            batchRef.current = []
+        }
+    }, [])
+}
@@ -1,32 +1,92 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import Taro from '@tarojs/taro'
-import { throttle, SelectorUtils, QueryUtils, execIfFunction, debounce } from '../utils/virtualList'
+import {
+    throttle,
+    SelectorUtils,
+    QueryUtils,
+    execIfFunction,
+    debounce,
+    getAxisKeys,
+    resolveColumns,
+    getRowHeights,
+    getMasonryLayout,
+    isSameMasonryLayout,
+    getRowOffsets,
+    FenwickTree,
+    resolveThreshold,
+    resolveScrollOptions,
+    getAlignedScrollOffset,
+    diffList
+} from '../utils/virtualList'
 
 import type {
+    FooterInfo,
+    FooterStatus,
     IItemScrollTop,
     ISubPage,
+    ItemKey,
+    MasonryLayout,
     UseVirtualListOptions,
-    VirtualListRef as VirtualListMethods,
+    VirtualListCoreMethods as VirtualListMethods,
     UseVirtualListReturn,
     VirtualListSegment,
+    VirtualListScope,
     ObserverMap,
     ObserverCreatingSet,
-    SubPageMap
+    PersistedScrollState,
+    VisibleRange,
+    SubPageMap,
+    PendingPosition,
+    ScrollInfo,
+    ScrollToOptions
 } from '../types'
 
+// 距离底部小于该值时视为已滚动到底部
+const BOTTOM_THRESHOLD = 20
+// 保存滚动位置时使用的存储 key 前缀
+const SCROLL_STORAGE_PREFIX = 'virtual-list-scroll:'
+// 保存滚动位置时只保存锚点项所在页前后各若干页的高度，控制写入的数据量
+const PERSIST_PAGE_RANGE = 2
+// 动画滚动停止检测的查询间隔与最长等待时间
+const SCROLL_SETTLE_INTERVAL = 100
+const SCROLL_SETTLE_TIMEOUT = 1500
+// 等待目标页面渲染并测量的最长时间
+const PAGE_MEASURE_TIMEOUT = 1000
+// scrollTo 按实际高度校正滚动位置的最大次数，以及每次校正前等待页面测量的时间
+const SCROLL_CORRECTION_LIMIT = 5
+const SCROLL_CORRECTION_DELAY = 50
+
 export const useVirtualList = <T>({
     list,
     listId,
+    scope,
+    adapter,
     segmentNum,
     getSegmentNum,
     screenNum,
     guessItemHeight,
+    itemHeight,
+    direction,
+    columns,
+    layout: listLayout,
+    inverted,
+    getItemKey,
+    onEndReachedThreshold,
+    onEndReached,
+    loadMore,
+    onRefresh,
+    persistScroll,
+    scrollAnchoring,
+    onVisibleRangeChange,
     onScrollToEnd,
     onScroll
 }: UseVirtualListOptions<T>): UseVirtualListReturn<T> => {
     // State
     const [renderList, setRenderList] = useState<VirtualListSegment<T>[]>([])
     const [isCompleted, setIsCompleted] = useState(false)
+    const [columnCount, setColumnCount] = useState(1)
+    const [footerStatus, setFooterStatus] = useState<FooterStatus>('idle')
+    const [refreshing, setRefreshing] = useState(false)
 
     // 使用ref保持renderList引用，避免依赖变化
     const renderListRef = useRef(renderList)
@@ -35,15 +95,69 @@ export const useVirtualList = <T>({
     // 使用精确的类型定义
     const segmentListRef = useRef<T[][]>([])
     const subPageMapRef = useRef<SubPageMap>(new Map<number, ISubPage>())
-    const observersRef = useRef<ObserverMap>(new Map<number, Taro.IntersectionObserver>())
+    const observersRef = useRef<ObserverMap>(new Map())
     const scrollHeightRef = useRef<number>(0)
     const viewHeightRef = useRef<number>(0)
     const headerHeightRef = useRef<number>(0)
     const currentPageRef = useRef<Taro.PageInstance>(Taro.getCurrentInstance().page!)
+    // 查询与观察的作用域，未传入时为当前页面实例
+    const scopeRef = useRef<VirtualListScope>(scope ?? currentPageRef.current)
+    scopeRef.current = scope ?? currentPageRef.current
     const initializingRef = useRef<boolean>(false)
+    // 初始化期间列表再次变化时记录下来，当前初始化完成后重新初始化
+    const pendingInitRef = useRef<{ initialIndex?: number; silent: boolean } | null>(null)
+    const initRenderListRef = useRef<(initialIndex?: number, silent?: boolean) => Promise<void>>()
     const listRef = useRef<T[]>(list)
+    // 每行的列数，grid 布局下分页、测量与占位均按行计算
+    const columnsRef = useRef<number>(1)
+    // 单页的项数，列表增量更新时沿用
+    const segmentSizeRef = useRef<number>(0)
+    // 每页第一项在列表中的索引
+    const pageStartsRef = useRef<number[]>([])
+    // 页面尺寸的前缀和，按页更新，位置查询为 O(log n)
+    const pageSizeTreeRef = useRef<FenwickTree>(new FenwickTree())
+    // 已测量的列表项高度，传入 getItemKey 时按 key 缓存，否则按对象引用缓存
+    // 不随观察器与分页一起清理，列表变化、重新分页后依然可用
+    const itemHeightCacheRef = useRef<Map<ItemKey, number>>(new Map())
+    const itemHeightWeakCacheRef = useRef<WeakMap<object, number>>(new WeakMap())
+    const hasCachedHeightRef = useRef<boolean>(false)
+    // 从存储中恢复的列表项高度，按列表索引记录，列表变化后失效
+    const restoredHeightsRef = useRef<Map<number, number> | null>(null)
+    // 是否已尝试恢复保存的滚动位置，只在首次展示非空列表时恢复
+    const restoredRef = useRef<boolean>(false)
+    // key 到列表索引的映射，列表变化后按需重建
+    const keyIndexMapRef = useRef<Map<ItemKey, number> | null>(null)
+    // 使用ref保持getItemKey引用，避免内联函数导致回调频繁重建
+    const getItemKeyRef = useRef(getItemKey)
+    getItemKeyRef.current = getItemKey
+    const itemHeightRef = useRef(itemHeight)
+    itemHeightRef.current = itemHeight
+    // 底部加载状态，滚动回调中同步读取
+    const footerStatusRef = useRef<FooterStatus>('idle')
+    // 本次到达末尾是否已触发过，离开阈值范围或列表变化后重置
+    const endReachedRef = useRef<boolean>(false)
+    const onEndReachedRef = useRef(onEndReached)
+    onEndReachedRef.current = onEndReached
+    const loadMoreRef = useRef(loadMore)
+    loadMoreRef.current = loadMore
+    // 上次通知的可见范围，首项或末项变化时才再次通知
+    const visibleRangeRef = useRef<VisibleRange | null>(null)
+    const onVisibleRangeChangeRef = useRef(onVisibleRangeChange)
+    onVisibleRangeChangeRef.current = onVisibleRangeChange
+    // 下拉刷新期间的列表变化视为刷新结果，静默重新初始化
+    const refreshingRef = useRef<boolean>(false)
     // 缓存观察器创建状态，避免重复创建
     const observerCreatingRef = useRef<ObserverCreatingSet>(new Set<number>())
+    // 初始化完成后需要恢复的滚动位置：滚动到底部或保持锚点项在视图中的位置
+    const pendingPositionRef = useRef<PendingPosition | null>(null)
+    // 等待页面渲染并完成测量的回调，页面测量后调用
+    const pageMeasuredListenersRef = useRef(new Map<number, Set<() => void>>())
+    // 滚动锚定开关，以及正在进行的 scrollTo / scrollToOffset 数量，主动滚动期间由滚动方法自行定位
+    const scrollAnchoringRef = useRef(scrollAnchoring)
+    scrollAnchoringRef.current = scrollAnchoring
+    const programmaticScrollRef = useRef(0)
+    // 固定渲染的页面，离开视窗后不会被替换为占位符（如拖拽排序时经过的页面）
+    const pinnedPagesRef = useRef(new Set<number>())
     // 缓存滚动位置，减少频繁查询
     const lastScrollInfoRef = useRef<{ scrollTop: number; height: number; scrollHeight: number }>({
         scrollTop: 0,
@@ -56,17 +170,213 @@ export const useVirtualList = <T>({
         return new SelectorUtils(listId)
     }, [listId])
 
-    // 绑定页面上下文，确保在小程序中 selectorQuery 命中正确节点
+    // 绑定页面或自定义组件上下文，确保在小程序中 selectorQuery 命中正确节点
     const queryUtils = useMemo(() => {
-        return new QueryUtils(selectorUtils, currentPageRef.current)
-    }, [selectorUtils])
-    const windowHeight = useMemo(() => Taro.getWindowInfo().windowHeight, [])
+        return new QueryUtils(selectorUtils, adapter, scope ?? currentPageRef.current, direction)
+    }, [selectorUtils, adapter, scope, direction])
+    const axis = useMemo(() => getAxisKeys(direction), [direction])
+    // 主轴方向的窗口尺寸，作为视图尺寸未获取到时的兜底值
+    const windowSize = useMemo(() => {
+        const { windowWidth, windowHeight } = Taro.getWindowInfo()
+        return direction === 'horizontal' ? windowWidth : windowHeight
+    }, [direction])
+
+    const isMasonry = listLayout === 'masonry'
+    // 已知列表项高度时不再测量 DOM，位置均通过计算得到
+    const isFixedHeight = itemHeight !== undefined
+
+    // 按行估算指定数量列表项的高度
+    const guessSize = useCallback(
+        (length: number) => Math.ceil(length / columnsRef.current) * guessItemHeight,
+        [guessItemHeight]
+    )
+
+    // 分页变化后更新每页的起始索引
+    const updatePageStarts = useCallback(() => {
+        const starts: number[] = []
+        let count = 0
+        segmentListRef.current.forEach((segment) => {
+            starts.push(count)
+            count += segment.length
+        })
+        pageStartsRef.current = starts
+    }, [])
+
+    // 获取指定页第一项在列表中的索引
+    const getPageStart = useCallback((pageIndex: number) => pageStartsRef.current[pageIndex] ?? 0, [])
+
+    // 二分查找指定列表项所在的页
+    const getPageIndexOf = useCallback((index: number) => {
+        const starts = pageStartsRef.current
+        let low = 0
+        let high = starts.length - 1
+        let found = 0
+        while (low <= high) {
+            const mid = (low + high) >> 1
+            if (starts[mid] <= index) {
+                found = mid
+                low = mid + 1
+            } else {
+                high = mid - 1
+            }
+        }
+        return found
+    }, [])
+
+    // 获取页内第 pos 项的 key，未传入 getItemKey 时返回 undefined
+    const getKeyAt = useCallback(
+        (pageIndex: number, pos: number): ItemKey | undefined => {
+            const item = segmentListRef.current[pageIndex]?.[pos]
+            if (!getItemKeyRef.current || item === undefined) return undefined
+            return getItemKeyRef.current(item, getPageStart(pageIndex) + pos)
+        },
+        [getPageStart]
+    )
+
+    // 页面的 React key：传入 getItemKey 时取页面第一项的 key，增量更新后页面索引变化时已渲染的页面不会重新挂载
+    const getPageKey = useCallback(
+        (pageIndex: number): string => {
+            const key = getKeyAt(pageIndex, 0)
+            return key === undefined ? `page-${pageIndex}` : `item-${typeof key}-${key}`
+        },
+        [getKeyAt]
+    )
+
+    // 读取页内第 pos 项缓存的高度
+    const getCachedItemSize = useCallback(
+        (pageIndex: number, pos: number): number | undefined => {
+            const key = getKeyAt(pageIndex, pos)
+            const item = segmentListRef.current[pageIndex]?.[pos]
+            let cached: number | undefined
+            if (key !== undefined) {
+                cached = itemHeightCacheRef.current.get(key)
+            } else if (typeof item === 'object' && item !== null) {
+                cached = itemHeightWeakCacheRef.current.get(item)
+            }
+            // 本次未测量过的列表项使用从存储中恢复的高度
+            return cached ?? restoredHeightsRef.current?.get(getPageStart(pageIndex) + pos)
+        },
+        [getKeyAt, getPageStart]
+    )
+
+    // 缓存页内第 pos 项测量到的高度，基础类型的列表项无法区分，不做缓存
+    const setCachedItemSize = useCallback(
+        (pageIndex: number, pos: number, size: number) => {
+            const key = getKeyAt(pageIndex, pos)
+            const item = segmentListRef.current[pageIndex]?.[pos]
+            if (key !== undefined) {
+                itemHeightCacheRef.current.set(key, size)
+            } else if (typeof item === 'object' && item !== null) {
+                itemHeightWeakCacheRef.current.set(item, size)
+            } else {
+                return
+            }
+            hasCachedHeightRef.current = true
+        },
+        [getKeyAt]
+    )
+
+    // 获取页内第 pos 项已知的高度，优先使用 itemHeight，未测量过时使用猜测高度
+    const getKnownItemSize = useCallback(
+        (pageIndex: number, pos: number) => {
+            const fixedHeight = itemHeightRef.current
+            if (typeof fixedHeight === 'number') return fixedHeight
+            const item = segmentListRef.current[pageIndex]?.[pos]
+            if (fixedHeight && item !== undefined) {
+                return fixedHeight(item, getPageStart(pageIndex) + pos)
+            }
+
+            return getCachedItemSize(pageIndex, pos) ?? guessItemHeight
+        },
+        [getPageStart, getCachedItemSize, guessItemHeight]
+    )
+
+    // 估算指定页的高度，优先使用 itemHeight 与缓存的高度
+    const estimatePageSize = useCallback(
+        (pageIndex: number) => {
+            const length = segmentListRef.current[pageIndex]?.length || 0
+            if (!isFixedHeight && !hasCachedHeightRef.current) {
+                return guessSize(length)
+            }
+            const items = Array.from({ length }, (_, pos) => getKnownItemSize(pageIndex, pos))
+            return getRowHeights(items, columnsRef.current).reduce((sum, height) => sum + height, 0)
+        },
+        [isFixedHeight, guessSize, getKnownItemSize]
+    )
+
+    // 页内第 pos 项相对页面顶部的偏移，优先使用瀑布流布局与已测量的行偏移
+    const getItemOffset = useCallback(
+        (pageIndex: number, pos: number) => {
+            const pageData = subPageMapRef.current.get(pageIndex)
+            if (pageData?.layout) {
+                return pageData.layout.offsets[pos] ?? 0
+            }
+            if ((pageData?.rendered || isFixedHeight) && pageData?.rowOffsets && pageData.items.length > pos) {
+                return pageData.rowOffsets[Math.floor(pos / columnsRef.current)] ?? 0
+            }
+            // 未测量的页面按 itemHeight 与缓存的高度累加所在行之前的行高，与 estimatePageSize 一致
+            const rowStart = pos - (pos % columnsRef.current)
+            if (!isFixedHeight && !hasCachedHeightRef.current) {
+                return guessSize(rowStart)
+            }
+            const items = Array.from({ length: rowStart }, (_, index) => getKnownItemSize(pageIndex, index))
+            return getRowHeights(items, columnsRef.current).reduce((sum, height) => sum + height, 0)
+        },
+        [isFixedHeight, guessSize, getKnownItemSize]
+    )
+
+    // 获取指定页的尺寸，未测量时使用估算值
+    const getPageSize = useCallback(
+        (pageIndex: number) => subPageMapRef.current.get(pageIndex)?.height || estimatePageSize(pageIndex),
+        [estimatePageSize]
+    )
+
+    // 分页或页面测量结果整体变化后重建页面尺寸的前缀和
+    const updatePageSizes = useCallback(() => {
+        pageSizeTreeRef.current = new FenwickTree(segmentListRef.current.map((_, index) => getPageSize(index)))
+    }, [getPageSize])
+
+    // 指定页之前所有页的尺寸之和
+    const getPageOffset = useCallback((pageIndex: number) => pageSizeTreeRef.current.prefixSum(pageIndex), [])
+
+    // 创建页面占位符，优先使用已测量的高度
+    const createPlaceholder = useCallback(
+        (index: number): VirtualListSegment<T> => {
+            const pageData = subPageMapRef.current.get(index)
+            const height = pageData?.height || estimatePageSize(index)
+            // 瀑布流布局下保留每列的高度
+            return pageData?.layout ? { height, columnHeights: pageData.layout.heights } : { height }
+        },
+        [estimatePageSize]
+    )
+
+    // 排列瀑布流页面，从上一页各列超出上一页的位置继续排列，未测量的项使用已知或猜测的高度
+    const layoutMasonryPage = useCallback(
+        (index: number, items: number[]) => {
+            const length = segmentListRef.current[index]?.length || 0
+            const prevLayout = subPageMapRef.current.get(index - 1)?.layout
+            return getMasonryLayout(
+                Array.from({ length }, (_, pos) => items[pos] || getKnownItemSize(index, pos)),
+                columnsRef.current,
+                prevLayout?.heights.map((height) => height - prevLayout.size)
+            )
+        },
+        [getKnownItemSize]
+    )
+
+    // 获取瀑布流页面布局
+    const getPageLayout = useCallback((pageIndex: number) => subPageMapRef.current.get(pageIndex)?.layout, [])
 
     // 分页逻辑
     const createSegmentList = useCallback(() => {
-        const num = segmentNum === 'smart' ? Math.max(10, Math.floor(Math.sqrt(list.length))) : segmentNum
+        const base = segmentNum === 'smart' ? Math.max(10, Math.floor(Math.sqrt(list.length))) : segmentNum
+        // grid 布局下按整行分页，保证每页只包含完整的行
+        const num = Math.ceil(base / columnsRef.current) * columnsRef.current
+        segmentSizeRef.current = num
         segmentListRef.current = getSegmentNum(list, num)
-    }, [list, segmentNum, getSegmentNum])
+        updatePageStarts()
+        updatePageSizes()
+    }, [list, segmentNum, getSegmentNum, updatePageStarts, updatePageSizes])
 
     // 清理观察器 - 添加更好的错误处理和状态重置
     const clearObservers = useCallback(() => {
@@ -90,6 +400,21 @@ export const useVirtualList = <T>({
         }
     }, [])
 
+    // 断开指定页及其之后页面的观察器
+    const disconnectObservers = useCallback((fromPage: number) => {
+        observersRef.current.forEach((observer, index) => {
+            if (index < fromPage) return
+            try {
+                observer?.disconnect()
+            } catch (error) {
+                if (process.env.NODE_ENV === 'development') {
+                    console.warn(`清理观察器 ${index} 时出错:`, error)
+                }
+            }
+            observersRef.current.delete(index)
+        })
+    }, [])
+
     // 更新滚动高度 - 添加缓存机制减少频繁查询
     const updateScrollHeight = useCallback(async () => {
         try {
@@ -112,34 +437,131 @@ export const useVirtualList = <T>({
         headerHeightRef.current = height
     }, [queryUtils])
 
-    // 初始化高度
+    // 滚动锚定：视图顶部之前的内容尺寸变化时，按变化量调整滚动位置，保持当前可见的内容不跳动
+    const adjustScrollAnchor = useCallback(
+        async (delta: number) => {
+            const scrollTop = Math.max(0, lastScrollInfoRef.current.scrollTop + delta)
+            lastScrollInfoRef.current = { ...lastScrollInfoRef.current, scrollTop }
+            await queryUtils.scrollTo(scrollTop)
+        },
+        [queryUtils]
+    )
+
+    // 初始化高度，anchor 为 false 时由调用方自行保持滚动位置
     const initHeight = useCallback(
-        async (index: number, update = false): Promise<void> => {
-            const pageInfo = await queryUtils.getPageInfo(index)
-            const height = pageInfo.height || (segmentListRef.current[index]?.length || 0) * guessItemHeight
+        async (index: number, update = false, anchor = true): Promise<void> => {
+            const length = segmentListRef.current[index]?.length || 0
+            const prevData = subPageMapRef.current.get(index)
+            const prevHeight = pageSizeTreeRef.current.get(index)
+            let height: number
+            let items: number[]
+            let rendered: boolean
+            let pageLayout: MasonryLayout | undefined
+
+            if (isFixedHeight) {
+                // 已知列表项高度时直接计算，跳过 DOM 查询
+                items = Array.from({ length }, (_, pos) => getKnownItemSize(index, pos))
+                height = estimatePageSize(index)
+                rendered = Array.isArray(renderListRef.current[index])
+            } else {
+                const pageInfo = await queryUtils.getPageInfo(index)
+                height = pageInfo.height || estimatePageSize(index)
+                items = pageInfo.items.map((item) => item.height)
+                rendered = Boolean(pageInfo.items.length)
+
+                // 记录已测量的高度，列表变化后依然可以找回
+                items.forEach((size, pos) => setCachedItemSize(index, pos, size))
+            }
+
+            if (isMasonry) {
+                // 占位符页面沿用上次测量的高度，未测量的项使用猜测高度排列
+                if (!items.length && prevData?.items.length === length) {
+                    items = prevData.items
+                }
+                pageLayout = layoutMasonryPage(index, items)
+                height = pageLayout.size
+            }
 
             const pageData: ISubPage = {
                 height,
-                rendered: Boolean(pageInfo.items.length),
-                items: pageInfo.items.map((item) => item.height),
-                length: segmentListRef.current[index]?.length || 0
+                rendered,
+                items,
+                length,
+                rowOffsets: pageLayout ? undefined : getRowOffsets(items, columnsRef.current),
+                layout: pageLayout
             }
 
             subPageMapRef.current.set(index, pageData)
+            pageSizeTreeRef.current.set(index, height)
+
+            // 页面整体位于视图顶部之前时，尺寸变化会使可见内容跳动
+            const anchorResize = (pageIndex: number, prevSize: number, size: number) => {
+                if (!anchor || !scrollAnchoringRef.current || programmaticScrollRef.current || size === prevSize) return
+                const pageEnd = headerHeightRef.current + getPageOffset(pageIndex) + prevSize
+                if (pageEnd <= lastScrollInfoRef.current.scrollTop) {
+                    adjustScrollAnchor(size - prevSize)
+                }
+            }
+            anchorResize(index, prevHeight, height)
+
+            // 瀑布流后续页面从本页各列的结束位置继续排列，依次重新排列已排列过的页面，直到布局不再变化
+            const relaidPages: number[] = []
+            if (isMasonry) {
+                for (let next = index + 1; next < segmentListRef.current.length; next++) {
+                    const nextData = subPageMapRef.current.get(next)
+                    if (!nextData?.layout) break
+                    const nextLayout = layoutMasonryPage(next, nextData.items)
+                    if (isSameMasonryLayout(nextData.layout, nextLayout)) break
+
+                    subPageMapRef.current.set(next, { ...nextData, height: nextLayout.size, layout: nextLayout })
+                    pageSizeTreeRef.current.set(next, nextLayout.size)
+                    anchorResize(next, nextData.height, nextLayout.size)
+                    relaidPages.push(next)
+                }
+            }
+
+            if (rendered) {
+                const listeners = pageMeasuredListenersRef.current.get(index)
+                pageMeasuredListenersRef.current.delete(index)
+                listeners?.forEach((listener) => listener())
+            }
+
+            // 瀑布流页面按实际高度重新排列后需要重新渲染
+            const layoutChanged = isMasonry && pageData.rendered && !isSameMasonryLayout(prevData?.layout, pageLayout)
 
-            if (update) {
+            if (update || layoutChanged || relaidPages.length) {
                 setRenderList((prevList) => {
-                    const newList = [...prevList]
-                    const target = newList[index]
-                    if (target && 'height' in target && target.height !== height) {
-                        target.height = height
-                        return newList
-                    }
-                    return prevList // 没有变化则返回原列表
+                    let newList = prevList
+                    const pages = update || layoutChanged ? [index, ...relaidPages] : relaidPages
+                    pages.forEach((pageIndex) => {
+                        const target = prevList[pageIndex]
+                        // 已渲染的页面布局变化时重新渲染，占位符尺寸或各列高度变化时替换
+                        const pageData = subPageMapRef.current.get(pageIndex)
+                        const changed = Array.isArray(target)
+                            ? pageIndex !== index || layoutChanged
+                            : target &&
+                              (target.height !== pageData?.height ||
+                                  target.columnHeights?.join() !== pageData?.layout?.heights.join())
+                        if (!changed) return
+                        if (newList === prevList) newList = [...prevList]
+                        if (!Array.isArray(target)) newList[pageIndex] = createPlaceholder(pageIndex)
+                    })
+                    return newList // 没有变化则返回原列表
                 })
             }
         },
-        [queryUtils, guessItemHeight]
+        [
+            isFixedHeight,
+            queryUtils,
+            estimatePageSize,
+            setCachedItemSize,
+            getKnownItemSize,
+            layoutMasonryPage,
+            isMasonry,
+            getPageOffset,
+            adjustScrollAnchor,
+            createPlaceholder
+        ]
     )
 
     // 创建交叉观察器 - 添加防重复创建机制
@@ -180,85 +602,81 @@ export const useVirtualList = <T>({
                 return
             }
 
-            const height = viewHeightRef.current || windowHeight
+            const height = viewHeightRef.current || windowSize
 
             try {
-                // 相对视窗观察，根据 screenNum 动态计算扩展范围
+                // 相对列表自身的 ScrollView 观察，同一页面中的多个列表各自判断可见性，根据 screenNum 动态计算扩展范围
                 // screenNum 表示前后各扩展多少个屏幕高度，用于预渲染
                 // 先使用较小的扩展范围确保基本功能正常
                 const extendHeight = Math.floor(screenNum * height * 0.5) // 暂时减半
-                const observer = Taro.createIntersectionObserver(currentPageRef.current, {
-                    thresholds: [0, 0.01, 0.05, 0.1, 0.3, 0.5, 1.0]
-                }).relativeToViewport({
-                    // 前后各扩展范围，用于预渲染
-                    // 正数表示向外扩展监听区域，提前触发渲染
-                    top: extendHeight,
-                    bottom: extendHeight
-                })
-
                 // 采用简单 class 选择器，提升 observe 的命中率
-                observer.observe(pageClassSelector, (res) => {
-                    const intersectionRatio = res?.intersectionRatio || 0
-                    const isIntersecting = res?.intersectionRect?.height && res?.intersectionRect?.width
-
-                    // 使用更精确的阈值判断
-                    const INTERSECTION_THRESHOLD = 0.001 // 可配置的阈值
-
-                    if (!isIntersecting || intersectionRatio <= INTERSECTION_THRESHOLD) {
-                        // 离开视窗，替换为占位符
-                        setRenderList((prevList) => {
-                            const newList = [...prevList]
-                            // 只有当前是真实内容时才替换为占位符
-                            if (Array.isArray(newList[index])) {
-                                const currentHeight =
-                                    subPageMapRef.current.get(index)?.height ||
-                                    guessItemHeight * (segmentListRef.current[index]?.length || 0)
-                                newList[index] = { height: currentHeight }
-                                return newList
-                            } else {
-                                return prevList // 不需要更新状态
-                            }
-                        })
-                    } else if (intersectionRatio > INTERSECTION_THRESHOLD) {
-                        // 进入视窗，渲染实际内容
-                        setRenderList((prevList) => {
-                            const newList = [...prevList]
-                            // 只有当前是占位符时才渲染真实内容
-                            if (!Array.isArray(newList[index])) {
-                                newList[index] = segmentListRef.current[index] || []
-                                return newList
-                            } else {
-                                return prevList // 不需要更新状态
-                            }
-                        })
-
-                        // 使用防抖机制避免频繁的相邻页面观察器创建
-                        const adjacentObserverDebounce = debounce(() => {
-                            const adjacentPages = [index - 1, index + 1, index + 2]
-                            adjacentPages.forEach((pageIndex) => {
-                                if (
-                                    pageIndex >= 0 &&
-                                    pageIndex < segmentListRef.current.length &&
-                                    !observersRef.current.has(pageIndex) &&
-                                    !observerCreatingRef.current.has(pageIndex)
-                                ) {
-                                    createIntersectionObserver(pageIndex)
+                const observer = adapter.observe(
+                    pageClassSelector,
+                    {
+                        root: selectorUtils.getVlSelector(),
+                        // 前后各扩展范围，用于预渲染
+                        // 正数表示向外扩展监听区域，提前触发渲染
+                        rootMargin: { [axis.start]: extendHeight, [axis.end]: extendHeight },
+                        thresholds: [0, 0.01, 0.05, 0.1, 0.3, 0.5, 1.0]
+                    },
+                    ({ intersectionRatio, isIntersecting }) => {
+                        // 使用更精确的阈值判断
+                        const INTERSECTION_THRESHOLD = 0.001 // 可配置的阈值
+
+                        if (!isIntersecting || intersectionRatio <= INTERSECTION_THRESHOLD) {
+                            // 离开视窗，替换为占位符
+                            setRenderList((prevList) => {
+                                const newList = [...prevList]
+                                // 只有当前是真实内容且未被固定时才替换为占位符
+                                if (Array.isArray(newList[index]) && !pinnedPagesRef.current.has(index)) {
+                                    newList[index] = createPlaceholder(index)
+                                    return newList
+                                } else {
+                                    return prevList // 不需要更新状态
                                 }
                             })
-                        }, 100)
-
-                        requestAnimationFrame(async () => {
-                            try {
-                                await initHeight(index, true)
-                                adjacentObserverDebounce()
-                            } catch (error) {
-                                if (process.env.NODE_ENV === 'development') {
-                                    console.error(`处理交叉观察器回调时出错 (页面 ${index}):`, error)
+                        } else if (intersectionRatio > INTERSECTION_THRESHOLD) {
+                            // 进入视窗，渲染实际内容
+                            setRenderList((prevList) => {
+                                const newList = [...prevList]
+                                // 只有当前是占位符时才渲染真实内容
+                                if (!Array.isArray(newList[index])) {
+                                    newList[index] = segmentListRef.current[index] || []
+                                    return newList
+                                } else {
+                                    return prevList // 不需要更新状态
                                 }
-                            }
-                        })
-                    }
-                })
+                            })
+
+                            // 使用防抖机制避免频繁的相邻页面观察器创建
+                            const adjacentObserverDebounce = debounce(() => {
+                                const adjacentPages = [index - 1, index + 1, index + 2]
+                                adjacentPages.forEach((pageIndex) => {
+                                    if (
+                                        pageIndex >= 0 &&
+                                        pageIndex < segmentListRef.current.length &&
+                                        !observersRef.current.has(pageIndex) &&
+                                        !observerCreatingRef.current.has(pageIndex)
+                                    ) {
+                                        createIntersectionObserver(pageIndex)
+                                    }
+                                })
+                            }, 100)
+
+                            requestAnimationFrame(async () => {
+                                try {
+                                    await initHeight(index, true)
+                                    adjacentObserverDebounce()
+                                } catch (error) {
+                                    if (process.env.NODE_ENV === 'development') {
+                                        console.error(`处理交叉观察器回调时出错 (页面 ${index}):`, error)
+                                    }
+                                }
+                            })
+                        }
+                    },
+                    scopeRef.current
+                )
 
                 observersRef.current.set(index, observer)
                 // 移除创建状态标记
@@ -271,237 +689,520 @@ export const useVirtualList = <T>({
                 }
             }
         },
-        [screenNum, windowHeight, selectorUtils, guessItemHeight, queryUtils, initHeight]
+        [screenNum, windowSize, axis, adapter, selectorUtils, createPlaceholder, queryUtils, initHeight]
     )
 
-    // 滚动到指定像素位置
-    const scrollToOffset = useCallback(
-        async (scrollTop: number): Promise<boolean> => {
-            if (!isCompleted) return false
-
-            try {
-                // 获取当前滚动信息
-                const scrollInfo = await queryUtils.getScrollViewInfo()
-                const maxScrollTop = Math.max(0, scrollInfo.scrollHeight - scrollInfo.height)
+    // 固定渲染指定页面：占位符页面立即渲染为实际内容并测量，取消固定的页面之后由观察器回收
+    const pinPages = useCallback(
+        (pageIndexes: number[]) => {
+            const pages = pageIndexes.filter((index) => index >= 0 && index < segmentListRef.current.length)
+            pinnedPagesRef.current = new Set(pages)
 
-                // 边界检查：确保滚动位置不超过最大可滚动高度
-                const targetScrollTop = Math.min(Math.max(scrollTop, 0), maxScrollTop)
+            const placeholders = pages.filter((index) => !Array.isArray(renderListRef.current[index]))
+            if (placeholders.length === 0) return
 
-                // 获取 ScrollView 节点并执行滚动
-                const scrollViewNode = await queryUtils.getScrollViewNode()
+            setRenderList((prevList) => {
+                const newList = [...prevList]
+                placeholders.forEach((index) => {
+                    newList[index] = segmentListRef.current[index] || []
+                })
+                return newList
+            })
+            requestAnimationFrame(() => {
+                placeholders.forEach((index) => initHeight(index, true))
+            })
+        },
+        [initHeight]
+    )
 
-                if (scrollViewNode?.scrollTo) {
-                    scrollViewNode.scrollTo({
-                        top: targetScrollTop,
-                        animated: false
-                    })
+    // 直接设置 ScrollView 的滚动位置，不做边界检查
+    const scrollViewTo = useCallback(
+        (scrollTop: number, animated = false): Promise<boolean> => queryUtils.scrollTo(scrollTop, animated),
+        [queryUtils]
+    )
 
-                    // 触发滚动结束回调
-                    execIfFunction(onScrollToEnd)
-                    return true
-                } else {
-                    return false
-                }
-            } catch (error) {
-                if (process.env.NODE_ENV === 'development') {
-                    console.error('scrollToOffset 错误:', error)
+    // 等待动画滚动停止：到达目标位置或连续两次查询的滚动位置相同
+    const waitForScrollSettled = useCallback(
+        async (scrollTop: number): Promise<void> => {
+            const deadline = Date.now() + SCROLL_SETTLE_TIMEOUT
+            let lastScrollTop: number | undefined
+            while (Date.now() < deadline) {
+                await new Promise((resolve) => setTimeout(resolve, SCROLL_SETTLE_INTERVAL))
+                const info = await queryUtils.getScrollViewInfo()
+                if (Math.abs(info.scrollTop - scrollTop) < 1 || info.scrollTop === lastScrollTop) {
+                    return
                 }
-                return false
+                lastScrollTop = info.scrollTop
             }
         },
-        [isCompleted, queryUtils, onScrollToEnd]
+        [queryUtils]
     )
 
-    // 初始化渲染列表
-    const initRenderList = useCallback(async () => {
-        if (initializingRef.current) return
-        initializingRef.current = true
-
-        setIsCompleted(false)
-        await updateHeaderHeight()
-        await updateScrollHeight()
-
-        clearObservers()
-        createSegmentList()
-
-        const newRenderList: VirtualListSegment<T>[] = []
-
-        if (segmentListRef.current.length > 0) {
-            // 初始化时，只有第一页渲染为实际内容，其余都是占位符
-            // 所有页面都由观察器动态控制渲染
-            for (let i = 0; i < segmentListRef.current.length; i++) {
-                if (i === 0) {
-                    // 第一页直接渲染实际内容
-                    newRenderList.push(segmentListRef.current[i])
-                } else {
-                    // 其余页面为占位符
-                    newRenderList.push({ height: segmentListRef.current[i].length * guessItemHeight })
-                }
-            }
+    // 等待页面渲染并完成测量，超时后返回 false
+    const waitForPageMeasured = useCallback((pageIndex: number): Promise<boolean> => {
+        if (Array.isArray(renderListRef.current[pageIndex]) && subPageMapRef.current.get(pageIndex)?.rendered) {
+            return Promise.resolve(true)
         }
 
-        setRenderList(newRenderList)
+        return new Promise<boolean>((resolve) => {
+            const listeners = pageMeasuredListenersRef.current
+            const listener = () => {
+                clearTimeout(timer)
+                resolve(true)
+            }
+            const timer = setTimeout(() => {
+                listeners.get(pageIndex)?.delete(listener)
+                resolve(false)
+            }, PAGE_MEASURE_TIMEOUT)
 
-        // 初始化高度和观察器
-        if (newRenderList.length > 0) {
-            try {
-                // 并行初始化所有页面高度
-                await Promise.allSettled(newRenderList.map((_, index) => initHeight(index)))
-
-                // 批量创建观察器，减少延迟累积
-                // 使用 requestAnimationFrame 确保DOM已渲染
-                requestAnimationFrame(() => {
-                    // 分批创建观察器，避免一次性创建过多导致性能问题
-                    const batchSize = 5
-                    let currentBatch = 0
-
-                    const createBatch = () => {
-                        const start = currentBatch * batchSize
-                        const end = Math.min(start + batchSize, segmentListRef.current.length)
-
-                        for (let i = start; i < end; i++) {
-                            createIntersectionObserver(i)
-                        }
+            if (!listeners.has(pageIndex)) {
+                listeners.set(pageIndex, new Set())
+            }
+            listeners.get(pageIndex)!.add(listener)
+        })
+    }, [])
 
-                        currentBatch++
-                        if (end < segmentListRef.current.length) {
-                            // 下一批在下一帧创建
-                            requestAnimationFrame(createBatch)
-                        }
-                    }
+    // 滚动到目标位置，动画滚动时等待滚动停止
+    const scrollViewToSettled = useCallback(
+        async (scrollTop: number, animated: boolean): Promise<boolean> => {
+            if (!(await scrollViewTo(scrollTop, animated))) {
+                return false
+            }
+            if (animated) {
+                await waitForScrollSettled(scrollTop)
+            }
+            return true
+        },
+        [scrollViewTo, waitForScrollSettled]
+    )
 
-                    createBatch()
-                })
+    // 滚动到底部
+    const scrollToBottom = useCallback(async (): Promise<boolean> => {
+        try {
+            const info = await updateScrollHeight()
+            if (await scrollViewTo(Math.max(0, info.scrollHeight - info.height))) {
+                execIfFunction(onScrollToEnd)
+                return true
+            }
+            return false
+        } catch (error) {
+            if (process.env.NODE_ENV === 'development') {
+                console.error('scrollToBottom 错误:', error)
+            }
+            return false
+        }
+    }, [updateScrollHeight, scrollViewTo, onScrollToEnd])
 
-                setIsCompleted(true)
-            } catch (error) {
-                if (process.env.NODE_ENV === 'development') {
-                    console.error('Failed to initialize render list:', error)
-                }
-                setIsCompleted(true) // 即使出错也要标记完成
+    // 读取保存的滚动位置：恢复已测量的高度，并在初始化完成后将锚点项滚动回原来的位置
+    // 返回锚点项的索引，没有可恢复的位置时返回 undefined
+    const restoreScrollPosition = useCallback((): number | undefined => {
+        if (!persistScroll || restoredRef.current || listRef.current.length === 0) return undefined
+        restoredRef.current = true
+
+        try {
+            const state: PersistedScrollState | '' = Taro.getStorageSync(`${SCROLL_STORAGE_PREFIX}${listId}`)
+            if (!state || state.index >= listRef.current.length) return undefined
+
+            restoredHeightsRef.current = new Map(state.heights)
+            hasCachedHeightRef.current = state.heights.length > 0
+            // 保存的是视图顶部在锚点项内的偏移，锚点项顶部位于视图顶部之上
+            pendingPositionRef.current = { type: 'anchor', index: state.index, offset: -state.offset }
+            return state.index
+        } catch (error) {
+            if (process.env.NODE_ENV === 'development') {
+                console.error('Restore scroll position error:', error)
             }
-        } else {
-            setIsCompleted(true)
+            return undefined
         }
+    }, [persistScroll, listId])
 
-        initializingRef.current = false
-    }, [
-        updateHeaderHeight,
-        updateScrollHeight,
-        clearObservers,
-        createSegmentList,
-        guessItemHeight,
-        initHeight,
-        createIntersectionObserver
-    ])
+    // 初始化渲染列表
+    // initialIndex: 需要优先渲染的列表项，默认为第一项（inverted 模式下为最后一项）
+    // silent: 静默初始化，不展示加载状态并停留在顶部，用于下拉刷新
+    const initRenderList = useCallback(
+        async (initialIndex?: number, silent = false) => {
+            if (initializingRef.current) {
+                const pending = pendingInitRef.current
+                pendingInitRef.current = {
+                    initialIndex: initialIndex ?? pending?.initialIndex,
+                    silent: silent && (pending?.silent ?? true)
+                }
+                return
+            }
+            initializingRef.current = true
 
-    // 获取项目滚动位置 - 使用缓存和更高效的计算
-    const getItemScrollTop = useCallback(
-        (index: number): IItemScrollTop => {
-            let scrollTop = headerHeightRef.current
-            let height = 0
-            let rendered = false
-            let segIdx = 0
-            let curIdx = 0
+            // 首次展示非空列表时恢复保存的滚动位置
+            const startIndex = initialIndex ?? (silent ? undefined : restoreScrollPosition())
 
-            if (index < 0) {
-                return { height: 0, scrollTop: 0, rendered: false, pageIndex: 0 }
+            // inverted 模式下从底部开始展示
+            if (inverted && !silent && !pendingPositionRef.current) {
+                pendingPositionRef.current = { type: 'bottom' }
             }
 
-            // 使用当前渲染列表的引用，避免依赖数组变化
-            const currentRenderList = renderListRef.current
+            if (!silent) {
+                setIsCompleted(false)
+            }
+            await updateHeaderHeight()
+            await updateScrollHeight()
 
-            // 遍历当前渲染列表，计算累积高度
-            for (let pageIdx = 0; pageIdx < currentRenderList.length; pageIdx++) {
-                const page = currentRenderList[pageIdx]
-                const segmentData = segmentListRef.current[pageIdx]
+            // 列数依赖容器宽度时需要先获取容器尺寸
+            const crossSize = typeof columns === 'function' ? await queryUtils.getScrollViewCrossSize() : 0
+            columnsRef.current = resolveColumns(columns, crossSize)
+            setColumnCount(columnsRef.current)
 
-                if (!segmentData) break
+            clearObservers()
+            createSegmentList()
 
-                const pageLength = segmentData.length
+            const newRenderList: VirtualListSegment<T>[] = []
 
-                if (curIdx + pageLength - 1 < index) {
-                    // 目标项在后面的页面，累加当前页面高度
-                    curIdx += pageLength
+            if (segmentListRef.current.length > 0) {
+                // 初始化时，只有 initialIndex 所在页渲染为实际内容，其余都是占位符
+                // 所有页面都由观察器动态控制渲染
+                const initialPage =
+                    startIndex !== undefined
+                        ? getPageIndexOf(startIndex)
+                        : inverted
+                          ? segmentListRef.current.length - 1
+                          : 0
 
-                    if (Array.isArray(page)) {
-                        // 当前页面是实际内容，使用实测高度或猜测高度
-                        const pageData = subPageMapRef.current.get(pageIdx)
-                        const actualHeight = pageData?.height || pageLength * guessItemHeight
-                        scrollTop += actualHeight
+                for (let i = 0; i < segmentListRef.current.length; i++) {
+                    if (i === initialPage) {
+                        // 初始页直接渲染实际内容
+                        newRenderList.push(segmentListRef.current[i])
                     } else {
-                        // 当前页面是占位符，使用占位符高度
-                        scrollTop += page.height
+                        // 其余页面为占位符
+                        newRenderList.push({ height: estimatePageSize(i) })
                     }
-                    segIdx++
-                } else {
-                    // 找到目标项所在页面
-                    const pos = index - curIdx
-
-                    if (Array.isArray(page)) {
-                        // 页面已渲染，尝试获取实际高度
-                        const pageData = subPageMapRef.current.get(pageIdx)
-                        if (pageData && pageData.items.length > pos) {
-                            height = pageData.items[pos] || guessItemHeight
-                            rendered = true
-                            // 使用更高效的reduce计算
-                            scrollTop += pageData.items.slice(0, pos).reduce((sum, itemHeight) => sum + itemHeight, 0)
-                        } else {
-                            height = guessItemHeight
-                            rendered = true // 页面已渲染，但可能还没测量高度
-                            scrollTop += guessItemHeight * pos
+                }
+            }
+
+            setRenderList(newRenderList)
+
+            if (silent) {
+                scrollViewTo(0)
+            }
+
+            // 初始化高度和观察器
+            if (newRenderList.length > 0) {
+                try {
+                    // 并行初始化所有页面高度
+                    await Promise.allSettled(newRenderList.map((_, index) => initHeight(index, false, false)))
+
+                    // 批量创建观察器，减少延迟累积
+                    // 使用 requestAnimationFrame 确保DOM已渲染
+                    requestAnimationFrame(() => {
+                        // 分批创建观察器，避免一次性创建过多导致性能问题
+                        const batchSize = 5
+                        let currentBatch = 0
+
+                        const createBatch = () => {
+                            const start = currentBatch * batchSize
+                            const end = Math.min(start + batchSize, segmentListRef.current.length)
+
+                            for (let i = start; i < end; i++) {
+                                createIntersectionObserver(i)
+                            }
+
+                            currentBatch++
+                            if (end < segmentListRef.current.length) {
+                                // 下一批在下一帧创建
+                                requestAnimationFrame(createBatch)
+                            }
                         }
-                    } else {
-                        // 页面是占位符，使用猜测高度
-                        height = guessItemHeight
-                        rendered = false
-                        scrollTop += guessItemHeight * pos
+
+                        createBatch()
+                    })
+
+                    setIsCompleted(true)
+                } catch (error) {
+                    if (process.env.NODE_ENV === 'development') {
+                        console.error('Failed to initialize render list:', error)
                     }
-                    break
+                    setIsCompleted(true) // 即使出错也要标记完成
+                }
+            } else {
+                setIsCompleted(true)
+            }
+
+            initializingRef.current = false
+
+            // 使用最新的列表重新初始化
+            const pending = pendingInitRef.current
+            if (pending) {
+                pendingInitRef.current = null
+                initRenderListRef.current?.(pending.initialIndex, pending.silent)
+            }
+        },
+        [
+            inverted,
+            restoreScrollPosition,
+            updateHeaderHeight,
+            updateScrollHeight,
+            getPageIndexOf,
+            columns,
+            queryUtils,
+            scrollViewTo,
+            clearObservers,
+            createSegmentList,
+            estimatePageSize,
+            initHeight,
+            createIntersectionObserver
+        ]
+    )
+    initRenderListRef.current = initRenderList
+
+    // 获取项目滚动位置 - 通过页面尺寸的前缀和与页内行偏移计算，O(log n)
+    const getItemScrollTop = useCallback(
+        (index: number): IItemScrollTop => {
+            if (index < 0) {
+                return { height: 0, scrollTop: 0, rendered: false, pageIndex: 0 }
+            }
+
+            const pageCount = segmentListRef.current.length
+            const lastPage = pageCount - 1
+            const itemCount = pageCount > 0 ? getPageStart(lastPage) + segmentListRef.current[lastPage].length : 0
+
+            // 超出列表范围时返回列表末尾的位置
+            if (index >= itemCount) {
+                return {
+                    height: 0,
+                    scrollTop: headerHeightRef.current + getPageOffset(pageCount),
+                    rendered: false,
+                    pageIndex: Math.max(0, lastPage)
                 }
             }
 
+            const pageIndex = getPageIndexOf(index)
+            const pos = index - getPageStart(pageIndex)
+            // 页面已渲染，但可能还没测量高度
+            const rendered = Array.isArray(renderListRef.current[pageIndex])
+            const measured = rendered ? subPageMapRef.current.get(pageIndex)?.items[pos] : undefined
+
             return {
-                height,
-                scrollTop,
+                height: measured || getKnownItemSize(pageIndex, pos),
+                scrollTop: headerHeightRef.current + getPageOffset(pageIndex) + getItemOffset(pageIndex, pos),
                 rendered,
-                pageIndex: Math.min(segIdx, currentRenderList.length - 1)
+                pageIndex
             }
         },
-        [guessItemHeight]
+        [getPageStart, getPageIndexOf, getPageOffset, getItemOffset, getKnownItemSize]
     )
 
     /** 获取指定页的滚动信息 */
     const getPageScrollTop = useCallback(
         (index: number): { scrollTop: number; height: number; rendered: boolean; pageIndex: number } => {
-            let scrollTop = headerHeightRef.current
-            let height = 0
-            let rendered = false
-            let pageIndex = index
-
-            if (index > 0) {
-                const pageInfo = subPageMapRef.current.get(index)
-                if (pageInfo) {
-                    height = pageInfo.height
-                    rendered = pageInfo.rendered
-                    pageIndex = index
-
-                    for (let i = 0; i < pageIndex; i++) {
-                        scrollTop += subPageMapRef.current.get(i)?.height || 0
+            const pageInfo = subPageMapRef.current.get(index)
+
+            return {
+                scrollTop: headerHeightRef.current + getPageOffset(index),
+                height: pageInfo?.height || 0,
+                rendered: pageInfo?.rendered || false,
+                pageIndex: index
+            }
+        },
+        [getPageOffset]
+    )
+
+    // 瀑布流各列的偏移不单调，不能二分查找：先按页偏移找到所在的页，再逐项查找顶部不超过指定偏移且最靠下的一项
+    const findMasonryIndexAtOffset = useCallback(
+        (offset: number) => {
+            let low = 0
+            let high = segmentListRef.current.length - 1
+            let pageIndex = 0
+            while (low <= high) {
+                const mid = (low + high) >> 1
+                if (headerHeightRef.current + getPageOffset(mid) <= offset) {
+                    pageIndex = mid
+                    low = mid + 1
+                } else {
+                    high = mid - 1
+                }
+            }
+
+            // 所在页的列表项都在偏移之后时，取之前的页中最靠下的一项
+            for (let page = pageIndex; page >= 0; page--) {
+                const start = getPageStart(page)
+                let found = -1
+                let foundTop = -Infinity
+                segmentListRef.current[page].forEach((_, pos) => {
+                    const { scrollTop } = getItemScrollTop(start + pos)
+                    if (scrollTop <= offset && scrollTop > foundTop) {
+                        found = start + pos
+                        foundTop = scrollTop
                     }
+                })
+                if (found >= 0) return found
+            }
+            return 0
+        },
+        [getPageOffset, getPageStart, getItemScrollTop]
+    )
+
+    // 二分查找顶部不超过指定偏移的最后一项
+    const findIndexAtOffset = useCallback(
+        (offset: number, length: number) => {
+            if (isMasonry) {
+                return findMasonryIndexAtOffset(offset)
+            }
+
+            let low = 0
+            let high = length - 1
+            let found = 0
+            while (low <= high) {
+                const mid = (low + high) >> 1
+                if (getItemScrollTop(mid).scrollTop <= offset) {
+                    found = mid
+                    low = mid + 1
+                } else {
+                    high = mid - 1
                 }
             }
+            return found
+        },
+        [isMasonry, findMasonryIndexAtOffset, getItemScrollTop]
+    )
 
-            return {
-                scrollTop,
-                height,
-                rendered,
-                pageIndex
+    // 获取指定偏移处的列表项索引，grid 布局下返回该行的第一项
+    const getIndexAtOffset = useCallback(
+        (offset: number) => {
+            // 列表为空或尚未分页（初始化完成前）时没有可定位的列表项
+            const length = listRef.current.length
+            if (length === 0 || segmentListRef.current.length === 0) return -1
+
+            const index = findIndexAtOffset(offset, length)
+            if (isMasonry) return index
+            return index - ((index - getPageStart(getPageIndexOf(index))) % columnsRef.current)
+        },
+        [isMasonry, findIndexAtOffset, getPageStart, getPageIndexOf]
+    )
+
+    // 获取当前可见范围，基于最近一次滚动事件的滚动位置
+    const getVisibleRange = useCallback((): VisibleRange => {
+        const length = listRef.current.length
+        if (length === 0 || segmentListRef.current.length === 0) {
+            return { startIndex: -1, endIndex: -1, startPage: -1, endPage: -1 }
+        }
+
+        const { scrollTop, height } = lastScrollInfoRef.current
+        const viewSize = height || viewHeightRef.current || windowSize
+        const startIndex = getIndexAtOffset(scrollTop)
+        // 末项为顶部位于视图底部之上的最后一项
+        const endIndex = Math.max(startIndex, findIndexAtOffset(scrollTop + viewSize - 1, length))
+
+        return {
+            startIndex,
+            endIndex,
+            startPage: getPageIndexOf(startIndex),
+            endPage: getPageIndexOf(endIndex)
+        }
+    }, [windowSize, getIndexAtOffset, findIndexAtOffset, getPageIndexOf])
+
+    // 可见范围的首项或末项变化时通知
+    const checkVisibleRange = useCallback(() => {
+        if (!onVisibleRangeChangeRef.current) return
+
+        const range = getVisibleRange()
+        const prev = visibleRangeRef.current
+        if (prev && prev.startIndex === range.startIndex && prev.endIndex === range.endIndex) return
+
+        visibleRangeRef.current = range
+        onVisibleRangeChangeRef.current(range)
+    }, [getVisibleRange])
+
+    // 保存当前滚动位置：视图顶部的锚点项、视图顶部在锚点项内的偏移与锚点附近已测量的高度
+    // 更远的页面恢复时使用猜测高度，锚点项按保存的偏移定位，不受影响
+    const persistScrollPosition = useCallback(() => {
+        if (!persistScroll || listRef.current.length === 0 || segmentListRef.current.length === 0) return
+
+        const { scrollTop } = lastScrollInfoRef.current
+        const index = findIndexAtOffset(scrollTop, listRef.current.length)
+        const offset = scrollTop - getItemScrollTop(index).scrollTop
+        const anchorPage = getPageIndexOf(index)
+        const firstPage = Math.max(0, anchorPage - PERSIST_PAGE_RANGE)
+        const lastPage = Math.min(segmentListRef.current.length - 1, anchorPage + PERSIST_PAGE_RANGE)
+        const heights: Array<[number, number]> = []
+        segmentListRef.current.slice(firstPage, lastPage + 1).forEach((segment, offsetPage) => {
+            const pageIndex = firstPage + offsetPage
+            const start = getPageStart(pageIndex)
+            segment.forEach((_, pos) => {
+                const height = getCachedItemSize(pageIndex, pos)
+                if (height !== undefined) {
+                    heights.push([start + pos, height])
+                }
+            })
+        })
+
+        const data: PersistedScrollState = { index, offset, heights }
+        Taro.setStorage({ key: `${SCROLL_STORAGE_PREFIX}${listId}`, data }).catch((error) => {
+            if (process.env.NODE_ENV === 'development') {
+                console.error('Persist scroll position error:', error)
+            }
+        })
+    }, [persistScroll, listId, findIndexAtOffset, getItemScrollTop, getPageIndexOf, getPageStart, getCachedItemSize])
+
+    // 滚动停止后再保存，避免频繁写入存储
+    const debouncedPersistScroll = useMemo(() => debounce(persistScrollPosition, 300), [persistScrollPosition])
+
+    // 更新底部加载状态
+    const updateFooterStatus = useCallback((status: FooterStatus) => {
+        footerStatusRef.current = status
+        setFooterStatus(status)
+    }, [])
+
+    // 加载更多，加载中时不会重复调用
+    const runLoadMore = useCallback(async () => {
+        const load = loadMoreRef.current
+        if (!load || footerStatusRef.current === 'loading') return
+
+        updateFooterStatus('loading')
+        try {
+            const hasMore = await load()
+            updateFooterStatus(hasMore === false ? 'noMore' : 'idle')
+        } catch (error) {
+            if (process.env.NODE_ENV === 'development') {
+                console.error('Load more error:', error)
             }
+            updateFooterStatus('error')
+        }
+    }, [updateFooterStatus])
+
+    // 加载失败后重新加载
+    const retryLoadMore = useCallback(() => {
+        if (footerStatusRef.current === 'error') {
+            runLoadMore()
+        }
+    }, [runLoadMore])
+
+    // 检查是否到达列表末尾，每次到达只触发一次
+    const checkEndReached = useCallback(
+        (info: ScrollInfo) => {
+            if (!onEndReachedRef.current && !loadMoreRef.current) return
+
+            const distance = info.scrollHeight - info.scrollTop - info.height
+            if (distance > resolveThreshold(onEndReachedThreshold, info.height)) {
+                endReachedRef.current = false
+                return
+            }
+            if (endReachedRef.current || footerStatusRef.current !== 'idle') return
+
+            endReachedRef.current = true
+            execIfFunction(onEndReachedRef.current, info)
+            runLoadMore()
         },
-        []
+        [onEndReachedThreshold, runLoadMore]
     )
 
+    // 初始化或列表变化后不一定会触发滚动事件，需要主动检查是否触底并更新可见范围
+    const syncScrollState = useCallback(async () => {
+        try {
+            lastScrollInfoRef.current = await queryUtils.getScrollViewInfo()
+        } catch {
+            // 查询失败时使用缓存的滚动信息
+        }
+        checkEndReached(lastScrollInfoRef.current)
+        checkVisibleRange()
+    }, [queryUtils, checkEndReached, checkVisibleRange])
+
     // 滚动结束检测
     const scrollEndTimerRef = useRef<NodeJS.Timeout | null>(null)
     const onScrollEndRef = useRef(onScrollToEnd)
@@ -516,30 +1217,35 @@ export const useVirtualList = <T>({
                         const info = await queryUtils.getScrollViewInfo()
                         lastScrollInfoRef.current = info
                         execIfFunction(onScroll, info)
+                        checkEndReached(info)
+                        checkVisibleRange()
+                        debouncedPersistScroll()
 
-                        // 小程序环境下使用 IntersectionObserver，无需基于滚动位置渲染策略
-                        if (Taro.getEnv() === Taro.ENV_TYPE.WEAPP) {
+                        // 可见性观察可靠的平台由观察器回收页面，无需基于滚动位置渲染策略
+                        if (!adapter.recycleOnScroll) {
                             return
                         }
 
                         // 使用更智能的页面范围计算
                         const avgPageLength = Math.max(1, Math.floor(list.length / segmentListRef.current.length))
-                        const currentPage = Math.floor(info.scrollTop / (guessItemHeight * avgPageLength))
-                        const visibleRange = Math.ceil(info.height / (guessItemHeight * avgPageLength)) + 1
+                        const avgPageHeight = guessSize(avgPageLength)
+                        const currentPage = Math.floor(info.scrollTop / avgPageHeight)
+                        const visibleRange = Math.ceil(info.height / avgPageHeight) + 1
                         const startPage = Math.max(0, currentPage - 1)
                         const endPage = Math.min(segmentListRef.current.length - 1, currentPage + visibleRange + 1)
 
                         // 批量处理状态更新，减少渲染次数
                         let needsUpdate = false
-                        const updates: Array<{ index: number; content: T[] | { height: number } }> = []
+                        const updates: Array<{ index: number; content: VirtualListSegment<T> }> = []
 
                         renderListRef.current.forEach((page, pageIndex) => {
                             // 如果页面不在当前视窗范围内且是真实内容，替换为占位符
-                            if (Array.isArray(page) && (pageIndex < startPage || pageIndex > endPage)) {
-                                const currentHeight =
-                                    subPageMapRef.current.get(pageIndex)?.height ||
-                                    guessItemHeight * (segmentListRef.current[pageIndex]?.length || 0)
-                                updates.push({ index: pageIndex, content: { height: currentHeight } })
+                            if (
+                                Array.isArray(page) &&
+                                (pageIndex < startPage || pageIndex > endPage) &&
+                                !pinnedPagesRef.current.has(pageIndex)
+                            ) {
+                                updates.push({ index: pageIndex, content: createPlaceholder(pageIndex) })
                                 needsUpdate = true
                             }
                         })
@@ -586,7 +1292,18 @@ export const useVirtualList = <T>({
                 100,
                 300
             ),
-        [queryUtils, onScroll, createIntersectionObserver, guessItemHeight, list.length]
+        [
+            queryUtils,
+            adapter,
+            onScroll,
+            checkEndReached,
+            checkVisibleRange,
+            debouncedPersistScroll,
+            createIntersectionObserver,
+            guessSize,
+            createPlaceholder,
+            list.length
+        ]
     )
 
     // 计算估算的滚动位置
@@ -600,109 +1317,184 @@ export const useVirtualList = <T>({
                 return scrollInfo.scrollTop
             } else {
                 // 如果未渲染，使用估算位置
-                // 基于前面已渲染页面的高度 + 当前页面的估算高度
-                let estimatedTop = 0
-
-                // 累加前面所有页面的高度
-                for (let i = 0; i < pageIndex; i++) {
-                    const pageHeight =
-                        subPageMapRef.current.get(i)?.height ||
-                        (segmentListRef.current[i]?.length || 0) * guessItemHeight
-                    estimatedTop += pageHeight
-                }
+                // 前面所有页面的尺寸之和 + 当前页面内的位置 + 头部高度
+                return getPageOffset(pageIndex) + getItemOffset(pageIndex, itemIndexInPage) + headerHeightRef.current
+            }
+        },
+        [getItemScrollTop, getPageOffset, getItemOffset]
+    )
+
+    // 滚动到指定像素位置，align 指定该位置在视图中的对齐方式
+    const scrollToOffset = useCallback(
+        async (scrollTop: number, options?: ScrollToOptions): Promise<boolean> => {
+            if (!isCompleted) return false
+
+            const { align, animated, offset } = resolveScrollOptions(options)
+            programmaticScrollRef.current++
+
+            try {
+                // 获取当前滚动信息
+                const scrollInfo = await queryUtils.getScrollViewInfo()
+                const maxScrollTop = Math.max(0, scrollInfo.scrollHeight - scrollInfo.height)
+                const alignedScrollTop = getAlignedScrollOffset(
+                    { start: scrollTop, size: 0, scrollOffset: scrollInfo.scrollTop, viewSize: scrollInfo.height },
+                    { align, offset }
+                )
 
-                // 加上当前页面内的位置
-                estimatedTop += itemIndexInPage * guessItemHeight
+                // 边界检查：确保滚动位置不超过最大可滚动高度
+                const targetScrollTop = Math.min(Math.max(alignedScrollTop, 0), maxScrollTop)
 
-                // 加上头部高度
-                estimatedTop += headerHeightRef.current
+                if (!(await scrollViewToSettled(targetScrollTop, animated))) {
+                    return false
+                }
 
-                return estimatedTop
+                // 等待目标位置所在的页面渲染并测量
+                const index = getIndexAtOffset(scrollTop)
+                if (index >= 0) {
+                    await waitForPageMeasured(getPageIndexOf(index))
+                }
+
+                // 触发滚动结束回调
+                execIfFunction(onScrollToEnd)
+                return true
+            } catch (error) {
+                if (process.env.NODE_ENV === 'development') {
+                    console.error('scrollToOffset 错误:', error)
+                }
+                return false
+            } finally {
+                programmaticScrollRef.current--
             }
         },
-        [getItemScrollTop, segmentListRef, subPageMapRef, guessItemHeight, headerHeightRef]
+        [
+            isCompleted,
+            queryUtils,
+            scrollViewToSettled,
+            getIndexAtOffset,
+            getPageIndexOf,
+            waitForPageMeasured,
+            onScrollToEnd
+        ]
     )
 
-    // 合并滚动策略 - 一次性滚动到目标位置
+    // 合并滚动策略 - 滚动到估算位置，目标所在页面渲染并测量后按实际位置校正
     const scrollTo = useCallback(
-        async (index: number, offsetTop = 0): Promise<boolean> => {
+        async (index: number, options?: number | ScrollToOptions): Promise<boolean> => {
             if (!isCompleted) return false
 
+            const { align, animated, offset } = resolveScrollOptions(options)
+            programmaticScrollRef.current++
+
             try {
                 // 计算目标项在哪一页以及页面内的索引
-                let pageIndex = 0
-                let itemIndexInPage = index
-                let currentCount = 0
-
-                for (let i = 0; i < segmentListRef.current.length; i++) {
-                    const pageLength = segmentListRef.current[i].length
-                    if (currentCount + pageLength > index) {
-                        pageIndex = i
-                        itemIndexInPage = index - currentCount
-                        break
+                const pageIndex = getPageIndexOf(index)
+                const itemIndexInPage = index - getPageStart(pageIndex)
+
+                // 已知列表项高度时位置是精确的，直接滚动到目标位置
+                if (isFixedHeight) {
+                    const info = await queryUtils.getScrollViewInfo()
+                    const { scrollTop, height } = getItemScrollTop(index)
+                    const targetScrollTop = getAlignedScrollOffset(
+                        { start: scrollTop, size: height, scrollOffset: info.scrollTop, viewSize: info.height },
+                        { align, offset }
+                    )
+                    const maxScrollTop = Math.max(0, info.scrollHeight - info.height)
+                    if (!(await scrollViewToSettled(Math.min(Math.max(targetScrollTop, 0), maxScrollTop), animated))) {
+                        return false
                     }
-                    currentCount += pageLength
+                    await waitForPageMeasured(pageIndex)
+                    execIfFunction(onScrollToEnd)
+                    return true
                 }
 
-                // 检查目标元素是否已存在
-                const itemSelector = selectorUtils.getSpecificItemSelector(pageIndex, itemIndexInPage)
-                const elementExists = await queryUtils.checkElementExists(itemSelector)
+                const itemSelector = selectorUtils.getSpecificItemSelector(
+                    pageIndex,
+                    itemIndexInPage,
+                    getKeyAt(pageIndex, itemIndexInPage)
+                )
+
+                // 估算位置基于猜测的高度，滚动后经过的页面测量完成时按实际高度重新计算并校正，直到误差小于 1px
+                // 最后一轮只验证上一次滚动的结果，不再滚动
+                for (let attempt = 0; attempt <= SCROLL_CORRECTION_LIMIT; attempt++) {
+                    const info = await queryUtils.getScrollViewInfo()
+                    const elementExists = await queryUtils.checkElementExists(itemSelector)
+
+                    let targetScrollTop: number | null
+                    if (elementExists) {
+                        // 目标元素已渲染，按实际位置对齐
+                        targetScrollTop = await queryUtils.getElementScrollOffset(itemSelector, { align, offset })
+                    } else {
+                        // 使用已测量的高度计算估算的滚动位置
+                        const estimatedScrollTop = calculateEstimatedScrollTop(index, pageIndex, itemIndexInPage)
+                        const alignedScrollTop = getAlignedScrollOffset(
+                            {
+                                start: estimatedScrollTop,
+                                size: getItemScrollTop(index).height,
+                                scrollOffset: info.scrollTop,
+                                viewSize: info.height
+                            },
+                            { align, offset }
+                        )
+                        const maxScrollTop = Math.max(0, info.scrollHeight - info.height)
+                        targetScrollTop = Math.min(Math.max(alignedScrollTop, 0), maxScrollTop)
+                    }
 
-                if (elementExists) {
-                    // 元素已存在，直接滚动到精确位置
+                    if (targetScrollTop === null) {
+                        // 元素可能正在被回收或重新渲染，稍后重试
+                        await new Promise((resolve) => setTimeout(resolve, SCROLL_CORRECTION_DELAY))
+                        continue
+                    }
 
-                    const scrollSuccess = await queryUtils.scrollToElement(itemSelector, { offsetTop })
-                    if (scrollSuccess) {
+                    if (elementExists && Math.abs(info.scrollTop - targetScrollTop) < 1) {
                         execIfFunction(onScrollToEnd)
                         return true
-                    } else {
-                        return false
                     }
-                } else {
-                    // 计算估算的滚动位置
-                    const estimatedScrollTop = calculateEstimatedScrollTop(index, pageIndex, itemIndexInPage)
-
-                    if (estimatedScrollTop >= 0) {
-                        // 直接滚动到估算位置
-                        const vlInfo = await queryUtils.getScrollViewInfo()
-                        const scrollViewNode = await queryUtils.getScrollViewNode()
-
-                        if (scrollViewNode?.scrollTo) {
-                            scrollViewNode.scrollTo({
-                                top: Math.min(Math.max(estimatedScrollTop - offsetTop, 0), vlInfo.scrollHeight),
-                                animated: false
-                            })
 
-                            // 尝试精确定位（如果此时元素已渲染）
-                            const nowExists = await queryUtils.checkElementExists(itemSelector)
-                            if (nowExists) {
-                                const finalSuccess = await queryUtils.scrollToElement(itemSelector, { offsetTop })
-                                if (finalSuccess) {
-                                    execIfFunction(onScrollToEnd)
-                                    return true
-                                }
-                            } else {
-                                execIfFunction(onScrollToEnd)
-                                return true
-                            }
-                        }
+                    if (attempt === SCROLL_CORRECTION_LIMIT) {
+                        break
                     }
 
-                    return false
+                    if (!(await scrollViewToSettled(targetScrollTop, animated))) {
+                        return false
+                    }
+
+                    // 等待目标所在页面渲染并测量，再等待经过的页面完成测量
+                    await waitForPageMeasured(pageIndex)
+                    await new Promise((resolve) => setTimeout(resolve, SCROLL_CORRECTION_DELAY))
+                }
+
+                if (process.env.NODE_ENV === 'development') {
+                    console.warn(`scrollTo(${index}) 在 ${SCROLL_CORRECTION_LIMIT} 次校正后仍未精确定位`)
                 }
+                return false
             } catch (error) {
                 if (process.env.NODE_ENV === 'development') {
                     console.error('合并滚动错误:', error)
                 }
                 return false
+            } finally {
+                programmaticScrollRef.current--
             }
         },
-        [isCompleted, segmentListRef, selectorUtils, queryUtils, onScrollToEnd, calculateEstimatedScrollTop]
+        [
+            isCompleted,
+            isFixedHeight,
+            getItemScrollTop,
+            scrollViewToSettled,
+            waitForPageMeasured,
+            getPageIndexOf,
+            getPageStart,
+            getKeyAt,
+            selectorUtils,
+            queryUtils,
+            onScrollToEnd,
+            calculateEstimatedScrollTop
+        ]
     )
 
     // 滚动到视图中
     const scrollIntoView = useCallback(
-        async (index: number, offsetTop = 0): Promise<boolean> => {
+        async (index: number, options?: number | ScrollToOptions): Promise<boolean> => {
             try {
                 const info = await queryUtils.getScrollViewInfo()
                 const { scrollTop: targetScrollTop, height: targetHeight } = getItemScrollTop(index)
@@ -711,7 +1503,7 @@ export const useVirtualList = <T>({
                     info.scrollTop <= targetScrollTop && info.scrollTop + info.height >= targetScrollTop + targetHeight
 
                 if (!isInView) {
-                    return await scrollTo(index, offsetTop)
+                    return await scrollTo(index, options)
                 } else {
                     execIfFunction(onScrollToEnd)
                     return true
@@ -746,20 +1538,287 @@ export const useVirtualList = <T>({
         [initHeight]
     )
 
+    // 根据 key 查找列表项的索引，映射在列表变化后首次查找时重建
+    const getIndexByKey = useCallback((key: ItemKey) => {
+        const keyFn = getItemKeyRef.current
+        if (!keyFn) return -1
+        if (!keyIndexMapRef.current) {
+            const map = new Map<ItemKey, number>()
+            listRef.current.forEach((item, index) => map.set(keyFn(item, index), index))
+            keyIndexMapRef.current = map
+        }
+        return keyIndexMapRef.current.get(key) ?? -1
+    }, [])
+
+    // 滚动到指定 key 的列表项
+    const scrollToKey = useCallback(
+        async (key: ItemKey, options?: number | ScrollToOptions): Promise<boolean> => {
+            const index = getIndexByKey(key)
+            if (index < 0) return false
+            return scrollTo(index, options)
+        },
+        [getIndexByKey, scrollTo]
+    )
+
+    // 获取指定 key 的列表项的滚动位置，未找到时返回 null
+    const getItemScrollTopByKey = useCallback(
+        (key: ItemKey): IItemScrollTop | null => {
+            const index = getIndexByKey(key)
+            return index < 0 ? null : getItemScrollTop(index)
+        },
+        [getIndexByKey, getItemScrollTop]
+    )
+
+    // 重新测量指定页面，视图顶部的锚点项之前的内容尺寸变化时调整滚动位置，保持锚点项位置不变
+    const invalidatePage = useCallback(
+        async (pageIndex: number): Promise<boolean> => {
+            const length = listRef.current.length
+            if (!isCompleted || pageIndex < 0 || pageIndex >= segmentListRef.current.length) return false
+
+            let info: ScrollInfo = lastScrollInfoRef.current
+            try {
+                info = await queryUtils.getScrollViewInfo()
+            } catch {
+                // 查询失败时使用缓存的滚动信息
+            }
+
+            const anchorIndex = findIndexAtOffset(info.scrollTop, length)
+            const prevAnchorScrollTop = getItemScrollTop(anchorIndex).scrollTop
+
+            try {
+                await initHeight(pageIndex, true, false)
+            } catch (error) {
+                if (process.env.NODE_ENV === 'development') {
+                    console.error(`重新测量页面 ${pageIndex} 时出错:`, error)
+                }
+                return false
+            }
+
+            const delta = getItemScrollTop(anchorIndex).scrollTop - prevAnchorScrollTop
+            if (Math.abs(delta) >= 1) {
+                await scrollViewTo(Math.max(0, info.scrollTop + delta))
+            }
+
+            syncScrollState()
+            return true
+        },
+        [isCompleted, queryUtils, findIndexAtOffset, getItemScrollTop, initHeight, scrollViewTo, syncScrollState]
+    )
+
+    // 重新测量指定列表项所在的页面，可以传入索引或 { key }
+    const invalidateItem = useCallback(
+        (target: number | { key: ItemKey }): Promise<boolean> => {
+            const index = typeof target === 'number' ? target : getIndexByKey(target.key)
+            if (index < 0 || index >= listRef.current.length) return Promise.resolve(false)
+            return invalidatePage(getPageIndexOf(index))
+        },
+        [invalidatePage, getPageIndexOf, getIndexByKey]
+    )
+
     // 获取滚动信息
     const getScrollInfo = useCallback(async () => {
         return await queryUtils.getScrollViewInfo()
     }, [queryUtils])
 
-    // Effects - 只在list引用变化时重新初始化
+    // 列表变化时增量更新：只重新分页与测量发生变化的页，保留其余页面的测量结果、观察器与滚动位置
+    const updateList = useCallback(
+        async (prevList: T[]) => {
+            const diff = diffList(prevList, list)
+            const lengthDelta = list.length - prevList.length
+
+            // 内容未变化（仅引用变化）时无需处理
+            if (diff.start === diff.prevEnd && diff.start === diff.nextEnd) {
+                return
+            }
+
+            // 列表被整体替换、下拉刷新、初始化尚未完成或前后列表为空时完整初始化
+            const replaced = diff.start === 0 && diff.prevEnd === prevList.length && diff.nextEnd === list.length
+            const refreshed = refreshingRef.current
+            if (refreshed || replaced || prevList.length === 0 || list.length === 0 || initializingRef.current) {
+                // 列表被整体替换（如刷新）后重新允许加载更多
+                if (footerStatusRef.current !== 'loading') {
+                    updateFooterStatus('idle')
+                }
+                refreshingRef.current = false
+                initRenderList(undefined, refreshed)
+                return
+            }
+
+            let info: ScrollInfo = lastScrollInfoRef.current
+            try {
+                info = await queryUtils.getScrollViewInfo()
+            } catch {
+                // 查询失败时使用缓存的滚动信息
+            }
+
+            // 记录视图顶部的锚点项，变化区间在锚点之前时（如向顶部插入历史消息）保持锚点位置不变
+            const isAtBottom = info.scrollTop + info.height >= info.scrollHeight - BOTTOM_THRESHOLD
+            const anchorIndex = findIndexAtOffset(info.scrollTop, prevList.length)
+            const anchorOffset = getItemScrollTop(anchorIndex).scrollTop - info.scrollTop
+
+            const oldSegments = segmentListRef.current
+            const pageStarts = pageStartsRef.current
+
+            // grid 布局下每页需要由完整的行组成，不完整的页需要重新分页
+            const isGrid = columnsRef.current > 1 && !isMasonry
+            const isWholeRows = (segment: T[]) => segment.length % columnsRef.current === 0
+
+            // 完全位于公共前缀内的页保持不变
+            let firstPage = 0
+            while (
+                firstPage < oldSegments.length &&
+                pageStarts[firstPage] + oldSegments[firstPage].length <= diff.start &&
+                (!isGrid || isWholeRows(oldSegments[firstPage]))
+            ) {
+                firstPage++
+            }
+
+            // 完全位于公共后缀内的页保持不变，页索引整体平移
+            let suffixPage = oldSegments.length
+            if (!isGrid) {
+                while (suffixPage > firstPage && pageStarts[suffixPage - 1] >= diff.prevEnd) {
+                    suffixPage--
+                }
+            }
+
+            const middleStart = pageStarts[firstPage] ?? prevList.length
+            const middleEnd = (pageStarts[suffixPage] ?? prevList.length) + lengthDelta
+            const middleSegments = getSegmentNum(list.slice(middleStart, middleEnd), segmentSizeRef.current)
+            const pageDelta = middleSegments.length - (suffixPage - firstPage)
+
+            // 变化页及其之后页面的索引发生变化，需要重新创建观察器
+            disconnectObservers(firstPage)
+
+            const newSubPageMap: SubPageMap = new Map()
+            subPageMapRef.current.forEach((pageData, index) => {
+                if (index < firstPage) {
+                    newSubPageMap.set(index, pageData)
+                } else if (index >= suffixPage) {
+                    newSubPageMap.set(index + pageDelta, pageData)
+                }
+            })
+            subPageMapRef.current = newSubPageMap
+            segmentListRef.current = [
+                ...oldSegments.slice(0, firstPage),
+                ...middleSegments,
+                ...oldSegments.slice(suffixPage)
+            ]
+            updatePageStarts()
+            updatePageSizes()
+
+            setRenderList((prevRenderList) => {
+                // 变化的页沿用原位置页面的渲染状态，之后由观察器接管
+                const middle = middleSegments.map((segment, i) =>
+                    Array.isArray(prevRenderList[firstPage + i]) ? segment : createPlaceholder(firstPage + i)
+                )
+                return [...prevRenderList.slice(0, firstPage), ...middle, ...prevRenderList.slice(suffixPage)]
+            })
+
+            requestAnimationFrame(async () => {
+                await Promise.allSettled(middleSegments.map((_, i) => initHeight(firstPage + i, true, false)))
+
+                for (let i = firstPage; i < segmentListRef.current.length; i++) {
+                    createIntersectionObserver(i)
+                }
+
+                if (inverted && isAtBottom) {
+                    scrollToBottom()
+                } else if (anchorIndex >= diff.prevEnd) {
+                    const { scrollTop } = getItemScrollTop(anchorIndex + lengthDelta)
+                    scrollViewTo(Math.max(0, scrollTop - anchorOffset))
+                }
+
+                syncScrollState()
+            })
+        },
+        [
+            list,
+            inverted,
+            isMasonry,
+            queryUtils,
+            getSegmentNum,
+            updatePageStarts,
+            updatePageSizes,
+            updateFooterStatus,
+            initRenderList,
+            findIndexAtOffset,
+            getItemScrollTop,
+            disconnectObservers,
+            createPlaceholder,
+            initHeight,
+            createIntersectionObserver,
+            scrollToBottom,
+            scrollViewTo,
+            syncScrollState
+        ]
+    )
+
+    // Effects - 只在list引用变化时更新
     useEffect(() => {
         if (list !== listRef.current) {
+            const prevList = listRef.current
             listRef.current = list
-            initRenderList()
+            keyIndexMapRef.current = null
+            endReachedRef.current = false
+            restoredHeightsRef.current = null
+
+            // 按 key 缓存的高度明显多于列表项时，清理已不在列表中的 key
+            const cache = itemHeightCacheRef.current
+            if (cache.size > list.length * 2) {
+                cache.forEach((_, key) => {
+                    if (getIndexByKey(key) < 0) cache.delete(key)
+                })
+            }
+            updateList(prevList)
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [list])
 
+    // 初始化完成后恢复滚动位置
+    useEffect(() => {
+        const pending = pendingPositionRef.current
+        if (!isCompleted || !pending) return
+        pendingPositionRef.current = null
+
+        requestAnimationFrame(() => {
+            if (pending.type === 'bottom') {
+                scrollToBottom()
+            } else {
+                scrollTo(pending.index, pending.offset)
+            }
+        })
+    }, [isCompleted, scrollTo, scrollToBottom])
+
+    // 下拉刷新，刷新期间 list 变化时静默重新初始化并回到顶部
+    const handleRefresh = useCallback(async () => {
+        if (!onRefresh || refreshingRef.current) return
+
+        refreshingRef.current = true
+        setRefreshing(true)
+        try {
+            await onRefresh()
+        } catch (error) {
+            if (process.env.NODE_ENV === 'development') {
+                console.error('Refresh error:', error)
+            }
+        } finally {
+            setRefreshing(false)
+            // list 的更新可能在 onRefresh 结束后才提交，等待下一帧再结束刷新状态
+            requestAnimationFrame(() => {
+                refreshingRef.current = false
+            })
+        }
+    }, [onRefresh])
+
+    // 初始化完成后检查是否已到达列表末尾
+    useEffect(() => {
+        if (!isCompleted) return
+        const frame = requestAnimationFrame(() => {
+            syncScrollState()
+        })
+        return () => cancelAnimationFrame(frame)
+    }, [isCompleted, syncScrollState])
+
     // 首次初始化
     useEffect(() => {
         if (!initializingRef.current && renderList.length === 0) {
@@ -774,14 +1833,28 @@ export const useVirtualList = <T>({
         }
     }, [clearObservers])
 
+    // 卸载前保存尚未写入的滚动位置
+    useEffect(() => {
+        return () => {
+            debouncedPersistScroll.flush()
+        }
+    }, [debouncedPersistScroll])
+
     const methods: VirtualListMethods = useMemo(() => {
         return {
             scrollTo,
             scrollIntoView,
             scrollToOffset,
+            scrollToBottom,
+            scrollToKey,
             getItemScrollTop,
+            getItemScrollTopByKey,
+            getIndexAtOffset,
+            getVisibleRange,
             updateHeaderHeight,
             updateRenderList,
+            invalidateItem,
+            invalidatePage,
             getScrollInfo,
             getPageScrollTop
         }
@@ -789,17 +1862,37 @@ export const useVirtualList = <T>({
         scrollTo,
         scrollIntoView,
         scrollToOffset,
+        scrollToBottom,
+        scrollToKey,
         getItemScrollTop,
+        getItemScrollTopByKey,
+        getIndexAtOffset,
+        getVisibleRange,
         updateHeaderHeight,
         updateRenderList,
+        invalidateItem,
+        invalidatePage,
         getScrollInfo,
         getPageScrollTop
     ])
 
+    const footer: FooterInfo = useMemo(
+        () => ({ status: footerStatus, retry: retryLoadMore }),
+        [footerStatus, retryLoadMore]
+    )
+
     return {
         renderList,
         isCompleted,
+        columns: columnCount,
+        getPageLayout,
+        getPageStart,
+        getPageKey,
+        footer,
+        refreshing,
+        handleRefresh,
         handleScroll,
+        pinPages,
         methods
     }
 }
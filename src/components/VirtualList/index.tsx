@@ -1,34 +1,118 @@
 import React, { forwardRef, useImperativeHandle, useCallback, useMemo, useEffect } from 'react'
-import { ScrollView, View } from '@tarojs/components'
-import { getSegmentList } from './utils/virtualList'
+import { ScrollView, Slot, View } from '@tarojs/components'
+import { getSegmentList, getAxisKeys, getPageClassName } from './utils/virtualList'
+import { getPlatformAdapter } from './utils/platformAdapter'
 import { useVirtualList } from './hooks/useVirtualList'
+import { useSections } from './hooks/useSections'
+import { useViewability } from './hooks/useViewability'
+import { useSelection } from './hooks/useSelection'
+import { useReorder } from './hooks/useReorder'
+import { useItemAnimation } from './hooks/useItemAnimation'
 import { VirtualItem } from './components/VirtualItem'
 
-import type { VirtualListProps, VirtualListRef, IItemScrollTop } from './types'
+import type {
+    VirtualListProps,
+    VirtualListRef,
+    IItemScrollTop,
+    VirtualListSegment,
+    SectionListEntry,
+    GetItemKeyFunction,
+    FooterInfo,
+    FooterStatus,
+    VirtualListSection,
+    ViewableItemsChangedHandler
+} from './types'
 
 // 重新导出类型，保持向后兼容性
 export type { VirtualListProps, VirtualListRef, IItemScrollTop }
 // 生成默认ID的函数
 const generateListId = () => `vl-${Math.random().toString(36).slice(2)}-${Date.now()}`
+// 未传入 list 时使用的空列表，保持引用稳定避免重复初始化
+const EMPTY_LIST: never[] = []
+// 分组模式下只有分组内的列表项可以选中
+const isSectionItem = (entry: SectionListEntry) => entry.type === 'item'
+
+// 默认底部加载状态的文案与样式
+const FOOTER_TEXT: Record<FooterStatus, string> = {
+    idle: '',
+    loading: '加载中...',
+    error: '加载失败，点击重试',
+    noMore: '没有更多了'
+}
+const FOOTER_STYLE = { padding: '12px', textAlign: 'center' as const, fontSize: '14px', color: '#999' }
+
+// 拖拽预览与落点指示线的样式
+const DRAG_PREVIEW_STYLE = {
+    position: 'absolute' as const,
+    zIndex: 20,
+    opacity: 0.9,
+    overflow: 'hidden' as const,
+    pointerEvents: 'none' as const,
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)'
+}
+const DROP_INDICATOR_STYLE = {
+    position: 'absolute' as const,
+    zIndex: 20,
+    backgroundColor: '#1677ff',
+    pointerEvents: 'none' as const
+}
+
+// 传入 loadMore 但未传入 renderBottom 时渲染默认的底部加载状态
+const renderDefaultFooter = ({ status, retry }: FooterInfo) =>
+    status === 'idle' ? (
+        <View className="vl-footer" />
+    ) : (
+        <View className="vl-footer" style={FOOTER_STYLE} onClick={status === 'error' ? retry : undefined}>
+            {FOOTER_TEXT[status]}
+        </View>
+    )
 
 const VirtualListInner = forwardRef<VirtualListRef, VirtualListProps>(
     <T,>(
         {
-            list,
+            list = EMPTY_LIST,
+            sections,
             listId,
+            scope,
+            platformAdapter,
             segmentNum = 'smart',
             getSegmentNum = getSegmentList,
             screenNum = 2,
             guessItemHeight = 50,
+            itemHeight,
+            direction = 'vertical',
+            columns = 1,
+            layout = 'list',
+            inverted = false,
+            getItemKey,
             scrollViewProps = {},
             renderItem,
+            renderSectionHeader,
+            stickySectionHeader = false,
             renderEmpty,
             renderTop,
             renderBottom,
             renderLoading,
             onCompleted,
             onScroll,
-            onScrollToEnd
+            onScrollToEnd,
+            onEndReached,
+            onEndReachedThreshold = 0.5,
+            loadMore,
+            onRefresh,
+            renderRefresher,
+            persistScroll = false,
+            scrollAnchoring = true,
+            onVisibleRangeChange,
+            onViewableItemsChanged,
+            viewabilityConfig,
+            selectionMode,
+            selectedKeys,
+            defaultSelectedKeys,
+            onSelectionChange,
+            reorderable = false,
+            onReorder,
+            itemAnimation = false
         }: VirtualListProps<T>,
         ref
     ) => {
@@ -40,25 +124,170 @@ const VirtualListInner = forwardRef<VirtualListRef, VirtualListProps>(
             return generateListId()
         }, [listId])
 
+        // 自动生成的 listId 每次都不同，无法找回保存的滚动位置
+        useEffect(() => {
+            if (persistScroll && !listId && process.env.NODE_ENV === 'development') {
+                console.warn('VirtualList: persistScroll 需要传入固定的 listId，否则无法恢复滚动位置')
+            }
+        }, [persistScroll, listId])
+
+        // 未传入适配器时按运行环境选择内置适配器
+        const adapter = useMemo(() => platformAdapter ?? getPlatformAdapter(), [platformAdapter])
+
+        // 分组数据展开为扁平列表后参与分页
+        const {
+            list: sectionList,
+            methodsRef: sectionMethodsRef,
+            handleStickyScroll,
+            scrollToSection,
+            stickySection,
+            stickyIndex
+        } = useSections({ sections, stickySectionHeader })
+        const hasSections = Boolean(sections)
+
+        // 分组模式下分组头使用分组 key，分组内的列表项使用 getItemKey 的结果
+        const resolvedGetItemKey = useMemo<GetItemKeyFunction<T> | undefined>(() => {
+            if (!getItemKey || !hasSections) return getItemKey
+            return (item, index) => {
+                const entry = item as unknown as SectionListEntry<T>
+                return entry.type === 'header' ? `__section-${entry.section.key}` : getItemKey(entry.item, index)
+            }
+        }, [getItemKey, hasSections])
+
         // 使用自定义Hook管理虚拟列表逻辑
-        const { renderList, isCompleted, handleScroll, methods } = useVirtualList({
-            list,
+        const {
+            renderList,
+            isCompleted,
+            columns: columnCount,
+            getPageLayout,
+            getPageStart,
+            getPageKey,
+            footer,
+            refreshing,
+            handleRefresh,
+            handleScroll,
+            pinPages,
+            methods
+        } = useVirtualList({
+            // 分组模式下列表项为分组头或分组内的列表项
+            list: hasSections ? (sectionList as T[]) : list,
             listId: stableListId,
+            scope,
+            adapter,
             segmentNum,
             getSegmentNum,
             screenNum,
             guessItemHeight,
+            itemHeight,
+            direction,
+            columns,
+            layout,
+            inverted,
+            getItemKey: resolvedGetItemKey,
+            onEndReachedThreshold,
+            onEndReached,
+            loadMore,
+            onRefresh,
+            persistScroll,
+            scrollAnchoring,
+            onVisibleRangeChange,
             onScrollToEnd,
             onScroll
         })
+        sectionMethodsRef.current = methods
+
+        // 分组模式下不上报分组头，上报分组内的列表项数据
+        const handleViewableItemsChanged = useMemo<ViewableItemsChangedHandler<T> | undefined>(() => {
+            if (!onViewableItemsChanged || !hasSections) return onViewableItemsChanged
+            return (items) => {
+                const viewableItems = items.flatMap((viewable) => {
+                    const entry = viewable.item as unknown as SectionListEntry<T>
+                    return entry.type === 'item' ? [{ ...viewable, item: entry.item }] : []
+                })
+                if (viewableItems.length > 0) onViewableItemsChanged(viewableItems)
+            }
+        }, [onViewableItemsChanged, hasSections])
+
+        useViewability({
+            listId: stableListId,
+            scope,
+            adapter,
+            renderList,
+            getPageStart,
+            getItemKey: resolvedGetItemKey,
+            viewabilityConfig,
+            onViewableItemsChanged: handleViewableItemsChanged
+        })
+
+        // 选中状态作用于整个列表，与页面是否渲染无关
+        const { isSelected, methods: selectionMethods } = useSelection({
+            list: hasSections ? (sectionList as T[]) : list,
+            getItemKey: resolvedGetItemKey,
+            isSelectable: hasSections ? (isSectionItem as (item: T) => boolean) : undefined,
+            selectionMode,
+            selectedKeys,
+            defaultSelectedKeys,
+            onSelectionChange
+        })
+
+        // 拖拽排序仅支持单列的 list 布局
+        const canReorder = reorderable && !hasSections && layout !== 'masonry' && columnCount <= 1
+        useEffect(() => {
+            if (reorderable && !canReorder && process.env.NODE_ENV === 'development') {
+                console.warn('VirtualList: reorderable 仅支持单列的 list 布局，不支持 sections')
+            }
+        }, [reorderable, canReorder])
+
+        const {
+            drag,
+            methodsRef: reorderMethodsRef,
+            touchHandlers
+        } = useReorder({
+            enabled: canReorder,
+            listId: stableListId,
+            scope,
+            adapter,
+            direction,
+            listLength: list.length,
+            getPageStart,
+            pinPages,
+            onReorder
+        })
+        reorderMethodsRef.current = methods
+
+        // 列表项动画依赖稳定的 key，仅支持单列的 list 布局
+        const canAnimate = Boolean(itemAnimation) && Boolean(getItemKey) && layout !== 'masonry' && columnCount <= 1
+        useEffect(() => {
+            if (itemAnimation && !canAnimate && process.env.NODE_ENV === 'development') {
+                console.warn('VirtualList: itemAnimation 需要传入 getItemKey，且仅支持单列的 list 布局')
+            }
+        }, [itemAnimation, canAnimate])
+
+        const {
+            methodsRef: animationMethodsRef,
+            removedItems,
+            getItemAnimationStyle,
+            getRemovedItemStyle
+        } = useItemAnimation({
+            enabled: canAnimate,
+            config: itemAnimation,
+            list: hasSections ? (sectionList as T[]) : list,
+            renderList,
+            direction,
+            getItemKey: resolvedGetItemKey,
+            getPageStart
+        })
+        animationMethodsRef.current = methods
 
         // 暴露ref方法
         useImperativeHandle(
             ref,
             () => ({
-                ...methods
+                ...methods,
+                ...selectionMethods,
+                scrollToSection
             }),
-            [methods]
+            [methods, selectionMethods, scrollToSection]
         )
 
         // 当组件初始化完成时触发回调
@@ -68,14 +297,6 @@ const VirtualListInner = forwardRef<VirtualListRef, VirtualListProps>(
             }
         }, [isCompleted, onCompleted])
 
-        // 滚动处理函数，使用useCallback避免重复创建
-        const onScrollHandler = useCallback(
-            (event: any) => {
-                handleScroll(event)
-            },
-            [handleScroll]
-        )
-
         // 🚀 优化：渲染内容 - 使用更精细的 useMemo 和组件拆分
         const containerStyle = useMemo(
             () => ({
@@ -87,19 +308,204 @@ const VirtualListInner = forwardRef<VirtualListRef, VirtualListProps>(
             []
         )
 
+        const isHorizontal = direction === 'horizontal'
+        const axis = useMemo(() => getAxisKeys(direction), [direction])
+
+        // 滚动处理函数，使用useCallback避免重复创建
+        // 吸顶分组直接按滚动事件中的位置更新，不等待节流后的滚动处理
+        const onScrollHandler = useCallback(
+            (event: any) => {
+                const scrollOffset = event?.detail?.[axis.scrollOffset]
+                if (typeof scrollOffset === 'number') {
+                    handleStickyScroll(scrollOffset)
+                }
+                handleScroll(event)
+            },
+            [handleScroll, handleStickyScroll, axis]
+        )
+
+        // 渲染分组头，未传入 renderSectionHeader 时渲染分组标题
+        const renderHeader = useCallback(
+            (section: VirtualListSection<T>, sectionIndex: number) =>
+                renderSectionHeader ? renderSectionHeader(section, sectionIndex) : <View>{section.title}</View>,
+            [renderSectionHeader]
+        )
+
+        // 渲染列表项，分组模式下区分分组头与分组内的列表项
+        const renderListItem = useCallback(
+            (item: T, pageIndex: number, index: number, selected: boolean) => {
+                const state = {
+                    isSelected: selected,
+                    toggleSelected: () => selectionMethods.toggleSelection(getPageStart(pageIndex) + index)
+                }
+                if (!hasSections) {
+                    return renderItem(item, pageIndex, index, state)
+                }
+                const entry = item as unknown as SectionListEntry<T>
+                return entry.type === 'header'
+                    ? renderHeader(entry.section, entry.sectionIndex)
+                    : renderItem(entry.item, pageIndex, index, state)
+            },
+            [hasSections, renderItem, renderHeader, selectionMethods, getPageStart]
+        )
+
         const scrollViewStyle = useMemo(
-            () => ({
-                height: '100%'
-            }),
-            []
+            () =>
+                isHorizontal
+                    ? {
+                          width: '100%',
+                          height: '100%',
+                          display: 'flex',
+                          flexDirection: 'row' as const
+                      }
+                    : {
+                          height: '100%'
+                      },
+            [isHorizontal]
         )
 
         const contentAreaStyle = useMemo(
+            () =>
+                isHorizontal
+                    ? {
+                          position: 'relative' as const,
+                          height: '100%',
+                          display: 'flex',
+                          flexDirection: 'row' as const,
+                          flexShrink: 0
+                      }
+                    : {
+                          position: 'relative' as const,
+                          width: '100%',
+                          height: '100%'
+                      },
+            [isHorizontal]
+        )
+
+        // 横向模式下页面与占位符沿主轴排列，且不允许被压缩
+        const pageStyle = useMemo(
+            () =>
+                isHorizontal
+                    ? {
+                          height: '100%',
+                          display: 'flex',
+                          flexDirection: 'row' as const,
+                          flexShrink: 0
+                      }
+                    : undefined,
+            [isHorizontal]
+        )
+
+        const edgeContentStyle = useMemo(() => (isHorizontal ? { flexShrink: 0 } : undefined), [isHorizontal])
+
+        // grid 布局下的行样式，横向模式下行沿交叉轴排列
+        const rowStyle = useMemo(
             () => ({
-                width: '100%',
-                height: '100%'
+                display: 'flex',
+                flexDirection: isHorizontal ? ('column' as const) : ('row' as const),
+                height: isHorizontal ? '100%' : undefined
             }),
-            []
+            [isHorizontal]
+        )
+
+        const gridItemStyle = useMemo(() => {
+            const percent = `${100 / columnCount}%`
+            return isHorizontal ? { height: percent, flexShrink: 0 } : { width: percent, flexShrink: 0 }
+        }, [isHorizontal, columnCount])
+
+        // 获取页内列表项的 key，未传入 getItemKey 时返回 undefined
+        const getKey = useCallback(
+            (item: T, pageIndex: number, index: number) =>
+                resolvedGetItemKey ? resolvedGetItemKey(item, getPageStart(pageIndex) + index) : undefined,
+            [resolvedGetItemKey, getPageStart]
+        )
+
+        // 渲染页内的列表项，grid 布局下按行分组，瀑布流布局下按列绝对定位
+        const renderPageItems = useCallback(
+            (page: T[], pageIndex: number) => {
+                const pageLayout = layout === 'masonry' ? getPageLayout(pageIndex) : undefined
+                if (pageLayout) {
+                    const percent = 100 / pageLayout.heights.length
+                    return page.map((item, index) => {
+                        const itemKey = getKey(item, pageIndex, index)
+                        return (
+                            <VirtualItem
+                                key={itemKey ?? `${pageIndex}-${index}`}
+                                listId={stableListId}
+                                item={item}
+                                pageIndex={pageIndex}
+                                index={index}
+                                itemKey={itemKey}
+                                selected={isSelected(item, getPageStart(pageIndex) + index)}
+                                renderItem={renderListItem}
+                                style={{
+                                    position: 'absolute',
+                                    pointerEvents: 'auto',
+                                    [axis.start]: `${pageLayout.offsets[index] ?? 0}px`,
+                                    [axis.crossStart]: `${(pageLayout.lanes[index] ?? 0) * percent}%`,
+                                    [axis.crossSize]: `${percent}%`
+                                }}
+                            />
+                        )
+                    })
+                }
+
+                if (columnCount <= 1) {
+                    return page.map((item, index) => {
+                        const itemKey = getKey(item, pageIndex, index)
+                        return (
+                            <VirtualItem
+                                key={itemKey ?? `${pageIndex}-${index}`} // 🚀 优化：更好的key生成
+                                listId={stableListId}
+                                item={item}
+                                pageIndex={pageIndex}
+                                index={index}
+                                itemKey={itemKey}
+                                selected={isSelected(item, getPageStart(pageIndex) + index)}
+                                renderItem={renderListItem}
+                                style={getItemAnimationStyle(itemKey)}
+                            />
+                        )
+                    })
+                }
+
+                const rowCount = Math.ceil(page.length / columnCount)
+                return Array.from({ length: rowCount }, (_, row) => (
+                    <View key={row} className="vl-row" style={rowStyle}>
+                        {page.slice(row * columnCount, (row + 1) * columnCount).map((item, column) => {
+                            const index = row * columnCount + column
+                            const itemKey = getKey(item, pageIndex, index)
+                            return (
+                                <VirtualItem
+                                    key={itemKey ?? `${pageIndex}-${index}`}
+                                    listId={stableListId}
+                                    item={item}
+                                    pageIndex={pageIndex}
+                                    index={index}
+                                    itemKey={itemKey}
+                                    selected={isSelected(item, getPageStart(pageIndex) + index)}
+                                    renderItem={renderListItem}
+                                    style={gridItemStyle}
+                                />
+                            )
+                        })}
+                    </View>
+                ))
+            },
+            [
+                stableListId,
+                renderListItem,
+                getKey,
+                isSelected,
+                getPageStart,
+                getItemAnimationStyle,
+                layout,
+                axis,
+                getPageLayout,
+                columnCount,
+                rowStyle,
+                gridItemStyle
+            ]
         )
 
         const loadingOverlayStyle = useMemo(
@@ -121,47 +527,148 @@ const VirtualListInner = forwardRef<VirtualListRef, VirtualListProps>(
 
         // 🚀 优化：分离渲染逻辑，减少大型 useMemo 的复杂度
         const renderPageContent = useCallback(
-            (page: T[] | { height: number }, pageIndex: number) => (
-                <View key={pageIndex} className={`vl-page-${pageIndex}`}>
-                    {'height' in page ? (
-                        // 占位符
-                        <View style={{ height: `${page.height}px` }} />
-                    ) : (
-                        // 实际内容 - 使用Fragment减少DOM嵌套
-                        <>
-                            {page.map((item, index) => (
-                                <VirtualItem
-                                    key={`${pageIndex}-${index}`} // 🚀 优化：更好的key生成
-                                    item={item}
-                                    pageIndex={pageIndex}
-                                    index={index}
-                                    renderItem={renderItem}
-                                />
-                            ))}
-                        </>
-                    )}
-                </View>
-            ),
-            [renderItem]
+            (page: VirtualListSegment<T>, pageIndex: number) => {
+                // 瀑布流页面尺寸取最短列，更长的列延伸到下一页，列表项绝对定位
+                // 页面本身不响应触摸，避免遮挡上一页延伸过来的列表项
+                const pageLayout = layout === 'masonry' && Array.isArray(page) ? getPageLayout(pageIndex) : undefined
+                const masonrySize = pageLayout ? pageLayout.size : 'columnHeights' in page ? page.height : undefined
+                const style =
+                    masonrySize !== undefined
+                        ? {
+                              ...pageStyle,
+                              position: 'relative' as const,
+                              pointerEvents: 'none' as const,
+                              [axis.size]: `${masonrySize}px`
+                          }
+                        : pageStyle
+
+                return (
+                    <View
+                        key={getPageKey(pageIndex)}
+                        className={getPageClassName(stableListId, pageIndex)}
+                        style={style}
+                    >
+                        {'height' in page ? (
+                            page.columnHeights ? (
+                                // 瀑布流占位符，每列保留各自的高度，更长的列延伸到下一页
+                                <View style={{ ...rowStyle, alignItems: 'flex-start' }}>
+                                    {page.columnHeights.map((columnHeight, column) => (
+                                        <View key={column} style={{ flex: 1, [axis.size]: `${columnHeight}px` }} />
+                                    ))}
+                                </View>
+                            ) : (
+                                // 占位符
+                                <View style={{ [axis.size]: `${page.height}px` }} />
+                            )
+                        ) : (
+                            // 实际内容 - 使用Fragment减少DOM嵌套
+                            <>{renderPageItems(page, pageIndex)}</>
+                        )}
+                    </View>
+                )
+            },
+            [stableListId, renderPageItems, pageStyle, rowStyle, layout, axis, getPageLayout, getPageKey]
         )
 
+        // 瀑布流最后一页更长的列超出页面尺寸的部分，无论最后一页是否渲染都保留，内容总尺寸保持不变
+        const masonryTailSize = useMemo(() => {
+            const lastIndex = renderList.length - 1
+            const lastPage = renderList[lastIndex]
+            if (layout !== 'masonry' || !lastPage) return 0
+            const pageLayout = Array.isArray(lastPage) ? getPageLayout(lastIndex) : undefined
+            const columnHeights = Array.isArray(lastPage) ? pageLayout?.heights : lastPage.columnHeights
+            const size = Array.isArray(lastPage) ? pageLayout?.size : lastPage.height
+            return columnHeights && size !== undefined ? Math.max(0, Math.max(...columnHeights) - size) : 0
+        }, [renderList, layout, getPageLayout])
+
         const renderMainContent = useMemo(
             () => (
                 <View style={contentAreaStyle}>
                     {renderList.length > 0 ? renderList.map(renderPageContent) : renderEmpty?.()}
+                    {masonryTailSize > 0 && <View style={{ [axis.size]: `${masonryTailSize}px` }} />}
+                    {/* 被移除的列表项在原位置淡出，不带页面的类名，不参与测量 */}
+                    {removedItems?.map((removedItem) => (
+                        <View
+                            key={`removed-${removedItem.key}`}
+                            className="vl-item-removed"
+                            style={getRemovedItemStyle(removedItem)}
+                        >
+                            {renderListItem(removedItem.item, removedItem.pageIndex, removedItem.itemIndex, false)}
+                        </View>
+                    ))}
                 </View>
             ),
-            [contentAreaStyle, renderList, renderPageContent, renderEmpty]
+            [
+                contentAreaStyle,
+                renderList,
+                renderPageContent,
+                masonryTailSize,
+                axis,
+                renderEmpty,
+                removedItems,
+                getRemovedItemStyle,
+                renderListItem
+            ]
         )
 
         const renderTopContent = useMemo(
-            () => (renderTop ? <View className="header-content">{renderTop()}</View> : null),
-            [renderTop]
+            () =>
+                renderTop ? (
+                    <View className="header-content" style={edgeContentStyle}>
+                        {renderTop()}
+                    </View>
+                ) : null,
+            [renderTop, edgeContentStyle]
+        )
+
+        const renderBottomContent = useMemo(() => {
+            const render = renderBottom || (loadMore ? renderDefaultFooter : undefined)
+            return render ? (
+                <View className="bottom-content" style={edgeContentStyle}>
+                    {render(footer)}
+                </View>
+            ) : null
+        }, [renderBottom, loadMore, footer, edgeContentStyle])
+
+        const stickyHeaderStyle = useMemo(
+            () => ({
+                position: 'absolute' as const,
+                top: 0,
+                left: 0,
+                [isHorizontal ? 'bottom' : 'right']: 0,
+                zIndex: 10
+            }),
+            [isHorizontal]
         )
 
-        const renderBottomContent = useMemo(
-            () => (renderBottom ? <View className="bottom-content">{renderBottom()}</View> : null),
-            [renderBottom]
+        // 吸顶分组头独立于分页渲染，所在页面被回收为占位符时依然保留
+        const renderStickyHeader = useMemo(
+            () =>
+                stickySection ? (
+                    <View className="vl-sticky-header" style={stickyHeaderStyle}>
+                        {renderHeader(stickySection, stickyIndex)}
+                    </View>
+                ) : null,
+            [stickySection, stickyIndex, stickyHeaderStyle, renderHeader]
+        )
+
+        // 传入 onRefresh 时由组件控制 ScrollView 的下拉刷新状态
+        const refresherProps = useMemo(
+            () =>
+                onRefresh
+                    ? {
+                          refresherEnabled: true,
+                          refresherTriggered: refreshing,
+                          refresherDefaultStyle: renderRefresher ? 'none' : scrollViewProps.refresherDefaultStyle,
+                          onRefresherRefresh: handleRefresh
+                      }
+                    : undefined,
+            [onRefresh, refreshing, renderRefresher, scrollViewProps.refresherDefaultStyle, handleRefresh]
+        )
+
+        const renderRefresherContent = useMemo(
+            () => (onRefresh && renderRefresher ? <Slot name="refresher">{renderRefresher(refreshing)}</Slot> : null),
+            [onRefresh, renderRefresher, refreshing]
         )
 
         const renderLoadingOverlay = useMemo(
@@ -169,34 +676,78 @@ const VirtualListInner = forwardRef<VirtualListRef, VirtualListProps>(
             [isCompleted, loadingOverlayStyle, renderLoading]
         )
 
+        // 拖拽预览跟随手指移动，落点指示线标记松手后列表项插入的位置
+        const renderDragLayer = useMemo(() => {
+            if (!drag) return null
+            const item = list[drag.fromIndex]
+            const crossStyle = { [axis.crossStart]: 0, [axis.crossSize]: '100%' }
+            return (
+                <>
+                    <View
+                        className="vl-drop-indicator"
+                        style={{
+                            ...DROP_INDICATOR_STYLE,
+                            ...crossStyle,
+                            [axis.start]: `${drag.indicator - 1}px`,
+                            [axis.size]: '2px'
+                        }}
+                    />
+                    <View
+                        className="vl-drag-preview"
+                        style={{
+                            ...DRAG_PREVIEW_STYLE,
+                            ...crossStyle,
+                            [axis.start]: `${drag.position}px`,
+                            [axis.size]: `${drag.size}px`
+                        }}
+                    >
+                        {renderListItem(item, drag.pageIndex, drag.itemIndex, isSelected(item, drag.fromIndex))}
+                    </View>
+                </>
+            )
+        }, [drag, list, axis, renderListItem, isSelected])
+
         const renderContent = useMemo(
             () => (
-                <View style={containerStyle}>
+                <View style={containerStyle} {...touchHandlers}>
                     <ScrollView
                         {...scrollViewProps}
-                        scrollY
+                        {...refresherProps}
+                        // 拖拽排序期间由组件控制滚动
+                        scrollX={isHorizontal && !drag}
+                        scrollY={!isHorizontal && !drag}
                         id={stableListId}
                         enhanced
                         enableFlex
                         style={scrollViewStyle}
                         onScroll={onScrollHandler}
                     >
+                        {renderRefresherContent}
                         {renderTopContent}
                         {renderMainContent}
                         {renderBottomContent}
                     </ScrollView>
+                    {renderStickyHeader}
+                    {renderDragLayer}
                     {renderLoadingOverlay}
                 </View>
             ),
             [
                 containerStyle,
+                touchHandlers,
+                drag,
                 scrollViewProps,
+                refresherProps,
+                isHorizontal,
                 stableListId,
                 scrollViewStyle,
                 onScrollHandler,
+                renderRefresherContent,
                 renderTopContent,
                 renderMainContent,
                 renderBottomContent,
+                renderStickyHeader,
+                renderDragLayer,
                 renderLoadingOverlay
             ]
         )
@@ -210,11 +761,43 @@ export const VirtualList = React.memo(VirtualListInner, (prevProps, nextProps) =
     // 自定义比较函数，避免不必要的重新渲染
     const isEqual =
         prevProps.list === nextProps.list &&
+        prevProps.sections === nextProps.sections &&
+        prevProps.renderSectionHeader === nextProps.renderSectionHeader &&
+        prevProps.stickySectionHeader === nextProps.stickySectionHeader &&
         prevProps.listId === nextProps.listId &&
+        prevProps.scope === nextProps.scope &&
+        prevProps.platformAdapter === nextProps.platformAdapter &&
         prevProps.segmentNum === nextProps.segmentNum &&
         prevProps.screenNum === nextProps.screenNum &&
         prevProps.guessItemHeight === nextProps.guessItemHeight &&
+        prevProps.itemHeight === nextProps.itemHeight &&
+        prevProps.direction === nextProps.direction &&
+        prevProps.columns === nextProps.columns &&
+        prevProps.layout === nextProps.layout &&
+        prevProps.inverted === nextProps.inverted &&
+        prevProps.getItemKey === nextProps.getItemKey &&
+        prevProps.onEndReached === nextProps.onEndReached &&
+        prevProps.onEndReachedThreshold === nextProps.onEndReachedThreshold &&
+        prevProps.loadMore === nextProps.loadMore &&
+        prevProps.onRefresh === nextProps.onRefresh &&
+        prevProps.renderRefresher === nextProps.renderRefresher &&
+        prevProps.persistScroll === nextProps.persistScroll &&
+        prevProps.scrollAnchoring === nextProps.scrollAnchoring &&
+        prevProps.onVisibleRangeChange === nextProps.onVisibleRangeChange &&
+        prevProps.onViewableItemsChanged === nextProps.onViewableItemsChanged &&
+        // 曝光规则常以字面量传入，按字段比较
+        prevProps.viewabilityConfig?.itemVisibleRatio === nextProps.viewabilityConfig?.itemVisibleRatio &&
+        prevProps.viewabilityConfig?.minimumViewTime === nextProps.viewabilityConfig?.minimumViewTime &&
         prevProps.renderItem === nextProps.renderItem &&
+        prevProps.selectionMode === nextProps.selectionMode &&
+        prevProps.selectedKeys === nextProps.selectedKeys &&
+        prevProps.onSelectionChange === nextProps.onSelectionChange &&
+        prevProps.reorderable === nextProps.reorderable &&
+        prevProps.onReorder === nextProps.onReorder &&
+        // 动画配置常以字面量传入，按字段比较
+        (typeof prevProps.itemAnimation === 'object' && typeof nextProps.itemAnimation === 'object'
+            ? prevProps.itemAnimation.duration === nextProps.itemAnimation.duration
+            : prevProps.itemAnimation === nextProps.itemAnimation) &&
         prevProps.onCompleted === nextProps.onCompleted &&
         prevProps.onScrollToEnd === nextProps.onScrollToEnd &&
         prevProps.onScroll === nextProps.onScroll
@@ -8,6 +8,7 @@ import React from 'react'
 
 /**
  * 虚拟列表项滚动位置信息
+ * - horizontal 模式下 height/scrollTop 分别表示宽度与横向滚动距离
  */
 export interface IItemScrollTop {
     /** 当前项的高度 */
@@ -26,12 +27,30 @@ export interface IItemScrollTop {
 export interface ISubPage {
     /** 页面是否已渲染 */
     rendered: boolean
-    /** 页高度 */
+    /** 页高度 (horizontal 模式下为宽度) */
     height: number
     /** 页面内容数量 */
     length: number
     /** 每条数据的高度 */
     items: number[]
+    /** 每行顶部相对页面顶部的偏移，由 items 计算 */
+    rowOffsets?: number[]
+    /** 瀑布流布局信息，仅 masonry 布局下存在 */
+    layout?: MasonryLayout
+}
+
+/**
+ * 瀑布流页面布局
+ */
+export interface MasonryLayout {
+    /** 每项所在的列 */
+    lanes: number[]
+    /** 每项相对页面顶部的偏移 */
+    offsets: number[]
+    /** 每列结束位置相对页面顶部的偏移，可能超出页面尺寸 */
+    heights: number[]
+    /** 页面尺寸，为最短列的结束位置，下一页从这里开始排列 */
+    size: number
 }
 
 /**
@@ -39,10 +58,50 @@ export interface ISubPage {
  */
 export type SegmentNumType = number | 'smart'
 
+/**
+ * 滚动方向
+ * - vertical: 纵向滚动
+ * - horizontal: 横向滚动，尺寸与偏移均按宽度与 scrollLeft 计算
+ */
+export type VirtualListDirection = 'vertical' | 'horizontal'
+
+/**
+ * 滚动方向对应的节点属性名
+ */
+export interface AxisKeys {
+    /** 主轴尺寸 */
+    size: 'height' | 'width'
+    /** 交叉轴尺寸 */
+    crossSize: 'width' | 'height'
+    /** 交叉轴起始边 */
+    crossStart: 'left' | 'top'
+    /** 主轴可滚动尺寸 */
+    scrollSize: 'scrollHeight' | 'scrollWidth'
+    /** 主轴滚动偏移 */
+    scrollOffset: 'scrollTop' | 'scrollLeft'
+    /** 主轴起始边 */
+    start: 'top' | 'left'
+    /** 主轴结束边 */
+    end: 'bottom' | 'right'
+}
+
+/**
+ * 布局方式
+ * - list: 列表/网格布局
+ * - masonry: 瀑布流布局，每项放入当前最短的列
+ */
+export type ListLayoutType = 'list' | 'masonry'
+
+/**
+ * 列数类型 - 固定列数或根据容器宽度计算列数
+ */
+export type ColumnsType = number | ((containerWidth: number) => number)
+
 /**
  * 虚拟列表段落内容类型
+ * - 占位符在 masonry 布局下会保留每列各自的高度，即每列结束位置相对页面顶部的偏移
  */
-export type VirtualListSegment<T> = T[] | { height: number }
+export type VirtualListSegment<T> = T[] | { height: number; columnHeights?: number[] }
 
 /**
  * 自定义分页函数类型
@@ -52,13 +111,131 @@ export type GetSegmentNumFunction<T> = (list: T[], segmentNum: number) => T[][]
 /**
  * 渲染函数类型
  */
-export type RenderItemFunction<T> = (item: T, pageIndex: number, index: number) => React.ReactElement
+export type RenderItemFunction<T> = (
+    item: T,
+    pageIndex: number,
+    index: number,
+    state: ItemRenderState
+) => React.ReactElement
+
+/**
+ * 列表项渲染状态，传给 renderItem
+ */
+export interface ItemRenderState {
+    /** 是否已选中 */
+    isSelected: boolean
+    /** 切换选中状态，未传入 selectionMode 时无效 */
+    toggleSelected: () => void
+}
+
+/**
+ * 选择模式
+ * - single: 单选，选中一项时取消其它项
+ * - multiple: 多选
+ */
+export type SelectionMode = 'single' | 'multiple'
+
+/**
+ * 拖拽排序完成事件处理函数类型，toIndex 为移动后列表项所在的索引
+ */
+export type ReorderHandler = (fromIndex: number, toIndex: number) => void
+
+/**
+ * 选中项变化事件处理函数类型
+ */
+export type SelectionChangeHandler = (selectedKeys: ItemKey[]) => void
+
+/**
+ * 已知的列表项高度，固定高度或按列表项计算，index 为列表项在整个列表中的索引
+ */
+export type ItemHeightType<T> = number | ((item: T, index: number) => number)
+
+/**
+ * 列表项唯一标识
+ */
+export type ItemKey = string | number
+
+/**
+ * 获取列表项唯一标识的函数类型，index 为列表项在整个列表中的索引
+ */
+export type GetItemKeyFunction<T> = (item: T, index: number) => ItemKey
+
+/**
+ * 分组数据
+ */
+export interface VirtualListSection<T = any> {
+    /** 分组唯一标识 */
+    key: string | number
+    /** 分组标题 */
+    title?: React.ReactNode
+    /** 分组内的列表项 */
+    data: T[]
+}
+
+/**
+ * 分组列表展开后的列表项，分组头与分组内的列表项共同参与分页
+ */
+export type SectionListEntry<T = any> =
+    | { type: 'header'; section: VirtualListSection<T>; sectionIndex: number }
+    | { type: 'item'; item: T; section: VirtualListSection<T>; sectionIndex: number; itemIndex: number }
+
+/**
+ * 分组头渲染函数类型
+ */
+export type RenderSectionHeaderFunction<T> = (
+    section: VirtualListSection<T>,
+    sectionIndex: number
+) => React.ReactElement
 
 /**
  * 渲染组件函数类型
  */
 export type RenderComponentFunction = () => React.ReactElement
 
+/**
+ * 底部加载状态
+ * - idle: 空闲
+ * - loading: 正在加载
+ * - error: 加载失败
+ * - noMore: 没有更多数据
+ */
+export type FooterStatus = 'idle' | 'loading' | 'error' | 'noMore'
+
+/**
+ * 底部加载信息，传给 renderBottom
+ */
+export interface FooterInfo {
+    /** 当前加载状态 */
+    status: FooterStatus
+    /** 重新加载，加载失败后调用 */
+    retry: () => void
+}
+
+/**
+ * 底部内容渲染函数类型
+ */
+export type RenderBottomFunction = (footer: FooterInfo) => React.ReactElement
+
+/**
+ * 触底阈值，数字表示屏数，'100px' 形式表示像素
+ */
+export type EndReachedThreshold = number | `${number}px`
+
+/**
+ * 加载更多函数类型，返回 false 表示没有更多数据，抛出异常表示加载失败
+ */
+export type LoadMoreFunction = () => Promise<boolean | void>
+
+/**
+ * 下拉刷新区域渲染函数类型
+ */
+export type RenderRefresherFunction = (refreshing: boolean) => React.ReactElement
+
+/**
+ * 触底事件处理函数类型
+ */
+export type EndReachedHandler = (info: ScrollInfo) => void
+
 /**
  * 滚动事件处理函数类型
  */
@@ -71,12 +248,40 @@ export interface VirtualListProps<T = any> {
     /**
      * 数据列表
      * - 发生变化时通过比较`前后列表的引用`是否相同来判断是否要更新
+     * - 更新时按引用比较列表项，只重新分页与测量发生变化的页，保留滚动位置与已测量的高度
+     * - 传入 sections 时忽略
      */
-    list: T[]
+    list?: T[]
+
+    /**
+     * 分组数据，与 list 二选一
+     * - 分组头与列表项一起参与分页，scrollTo 等方法的索引包含分组头
+     * - 发生变化时通过比较`前后分组的引用`是否相同来判断是否要更新
+     */
+    sections?: VirtualListSection<T>[]
+
+    /** 渲染分组头 */
+    renderSectionHeader?: RenderSectionHeaderFunction<T>
+
+    /** 当前分组的分组头是否吸顶 @default false */
+    stickySectionHeader?: boolean
 
     /** 虚拟列表唯一标识 */
     listId?: string
 
+    /**
+     * 节点查询与观察器的作用域
+     * - 列表位于原生自定义组件内时传入该组件实例，SelectorQuery 与 IntersectionObserver 均在组件内执行
+     * - 未传入时为当前页面实例
+     */
+    scope?: VirtualListScope
+
+    /**
+     * 平台适配器，负责节点测量、可见性观察与滚动位置读写
+     * - 未传入时按 Taro.getEnv() 使用内置的 weapp、h5 或其它平台通用的 taro 适配器
+     */
+    platformAdapter?: PlatformAdapter
+
     /**
      * 分段数 - 单页的项数
      * - 分段数为 Math.sqrt(list.length) 时需要渲染的节点相对最少
@@ -93,8 +298,57 @@ export interface VirtualListProps<T = any> {
     /** 猜测单条列表项的高度, 与实际值越接近滚动定位的效果越好 @default 50 */
     guessItemHeight?: number
 
+    /**
+     * 已知的列表项高度（横向模式下为宽度），固定值或按列表项计算
+     * - 传入后不再查询 DOM 测量高度，页面高度、滚动位置与 scrollTo 均通过计算得到
+     * - grid 布局下每行高度取该行列表项的最大值
+     */
+    itemHeight?: ItemHeightType<T>
+
+    /**
+     * 滚动方向
+     * - horizontal 模式下 guessItemHeight 表示单条列表项的宽度
+     * - getScrollInfo、getItemScrollTop 等返回的 height/scrollTop 对应宽度与 scrollLeft
+     * @default vertical
+     */
+    direction?: VirtualListDirection
+
+    /**
+     * 每行的列数，大于 1 时以 grid 方式布局
+     * - 传入函数时根据容器宽度（horizontal 模式下为高度）计算，仅在初始化时计算
+     * - 分页按整行进行，guessItemHeight 表示单行的高度
+     * - scrollTo、getItemScrollTop 等方法的索引仍为列表项索引
+     * @default 1
+     */
+    columns?: ColumnsType
+
+    /**
+     * 布局方式
+     * - masonry 布局下 columns 表示瀑布流的列数，每项放入当前最短的列
+     * - 先按 guessItemHeight 排列，列表项测量后按实际高度重新排列
+     * @default list
+     */
+    layout?: ListLayoutType
+
+    /**
+     * 从底部开始展示，适用于聊天记录等场景
+     * - 初始化时渲染最后一页并滚动到底部
+     * - 列表变化时，已在底部则保持在底部，否则保持当前可见的列表项位置不变（如向顶部插入历史消息）
+     * @default false
+     */
+    inverted?: boolean
+
+    /**
+     * 获取列表项唯一标识
+     * - 用作列表项的 React key 与节点 id，列表项插入、删除后不会被错误复用
+     * - 已测量的高度按 key 缓存，列表项移动到其它页后仍可用于估算占位高度
+     * - 传入后可使用 scrollToKey、getItemScrollTopByKey 方法
+     * - sections 模式下 item 为分组内的列表项，index 为展开后的列表索引
+     */
+    getItemKey?: GetItemKeyFunction<T>
+
     /** ScrollView 属性 */
-    scrollViewProps?: Omit<ScrollViewProps, 'enhanced' | 'scrollY' | 'id' | 'style' | 'onScroll'>
+    scrollViewProps?: Omit<ScrollViewProps, 'enhanced' | 'scrollX' | 'scrollY' | 'id' | 'style' | 'onScroll'>
 
     /** 渲染列表项 */
     renderItem: RenderItemFunction<T>
@@ -105,8 +359,12 @@ export interface VirtualListProps<T = any> {
     /** 渲染顶部内容 */
     renderTop?: RenderComponentFunction
 
-    /** 渲染底部内容 */
-    renderBottom?: RenderComponentFunction
+    /**
+     * 渲染底部内容
+     * - 参数为底部加载状态，传入 loadMore 时可据此渲染加载中、加载失败（调用 retry 重试）与没有更多
+     * - 传入 loadMore 但未传入 renderBottom 时渲染默认的加载状态
+     */
+    renderBottom?: RenderBottomFunction
 
     /** 渲染加载状态 */
     renderLoading?: RenderComponentFunction
@@ -119,47 +377,217 @@ export interface VirtualListProps<T = any> {
 
     /** 调用 scrollTo, scrollIntoView 完成时触发 */
     onScrollToEnd?: () => void
+
+    /**
+     * 滚动到距离列表末尾 onEndReachedThreshold 以内时触发
+     * - 每次到达末尾只触发一次，离开阈值范围或列表变化后才会再次触发
+     * - loadMore 加载中、加载失败或没有更多数据时不会触发
+     */
+    onEndReached?: EndReachedHandler
+
+    /**
+     * 触底阈值，数字表示屏数，'100px' 形式表示像素
+     * @default 0.5
+     */
+    onEndReachedThreshold?: EndReachedThreshold
+
+    /**
+     * 触底时加载更多数据，由组件管理底部加载状态
+     * - 返回的 Promise 未结束前不会再次触发
+     * - resolve 为 false 时进入 noMore 状态，reject 时进入 error 状态
+     * - list 被整体替换（如刷新）后重置为 idle 状态
+     */
+    loadMore?: LoadMoreFunction
+
+    /**
+     * 下拉刷新，传入后开启 ScrollView 的下拉刷新并由组件管理刷新状态
+     * - 刷新期间 list 发生变化时静默重新初始化并回到顶部，不展示 renderLoading
+     */
+    onRefresh?: () => Promise<void>
+
+    /** 自定义下拉刷新区域，传入后不再使用默认样式 */
+    renderRefresher?: RenderRefresherFunction
+
+    /**
+     * 保存滚动位置，重新进入页面（如页面被销毁后重建）时恢复
+     * - 按 listId 保存到 Taro 存储，需要同时传入固定的 listId
+     * - 保存视图顶部的锚点项、在锚点项内的偏移与已测量的高度，恢复时按锚点项精确定位
+     * @default false
+     */
+    persistScroll?: boolean
+
+    /**
+     * 滚动锚定，类似 CSS overflow-anchor
+     * - 视图顶部之前的页面测量后尺寸与预估不同时，按变化量调整滚动位置，当前可见的内容不会跳动
+     * @default true
+     */
+    scrollAnchoring?: boolean
+
+    /** 可见范围的第一项或最后一项变化时触发 */
+    onVisibleRangeChange?: VisibleRangeChangeHandler
+
+    /**
+     * 列表项曝光时触发，参数为新曝光的列表项
+     * - 按 viewabilityConfig 判断曝光，每个列表项（按 getItemKey 或对象引用区分）在组件生命周期内只上报一次
+     * - sections 模式下分组头不参与曝光统计
+     */
+    onViewableItemsChanged?: ViewableItemsChangedHandler<T>
+
+    /** 曝光规则 */
+    viewabilityConfig?: ViewabilityConfig
+
+    /**
+     * 选择模式，传入后启用选中状态
+     * - 选中状态按 getItemKey 的结果保存，未传入 getItemKey 时按列表项索引保存
+     * - 选中状态独立于分页渲染，页面被回收为占位符后依然保留
+     * - sections 模式下分组头不可选中
+     */
+    selectionMode?: SelectionMode
+
+    /** 选中项的 key（受控） */
+    selectedKeys?: ItemKey[]
+
+    /** 默认选中项的 key（非受控） */
+    defaultSelectedKeys?: ItemKey[]
+
+    /** 选中项变化时触发 */
+    onSelectionChange?: SelectionChangeHandler
+
+    /**
+     * 拖拽排序，长按列表项后拖动到新的位置
+     * - 手指靠近视图边缘时自动滚动，经过的占位符页面渲染为实际内容
+     * - 仅支持单列的 list 布局，不支持 sections
+     * @default false
+     */
+    reorderable?: boolean
+
+    /** 拖拽排序完成时触发，由调用方更新 list */
+    onReorder?: ReorderHandler
+
+    /**
+     * 列表项插入、移除与移动动画，需要传入 getItemKey
+     * - 新增项淡入，移除项在原位置淡出，位置变化的列表项平移到新位置
+     * - 只有已渲染的页面参与动画，占位符页面只更新高度
+     * - 动画不影响布局，动画期间 getItemScrollTop 返回变化后的位置
+     * - 仅支持单列的 list 布局
+     * @default false
+     */
+    itemAnimation?: boolean | ItemAnimationConfig
 }
 
 /**
  * 虚拟列表引用方法接口
  */
 export interface VirtualListRef {
-    /** 将指定位置的列表项滚动到视图顶部 */
-    scrollTo: (index: number, offsetTop?: number) => Promise<boolean>
+    /**
+     * 将指定位置的列表项滚动到视图顶部，第二个参数为数字时表示距视图顶部的距离
+     * - 动画滚动停止且目标所在页面渲染并测量后才 resolve
+     */
+    scrollTo: (index: number, options?: number | ScrollToOptions) => Promise<boolean>
+
+    /** 将指定位置的列表项滚动到视图中，如果已在视图里则不会滚动，不在视图里则按 align 对齐（默认滚动到顶部） */
+    scrollIntoView: (index: number, options?: number | ScrollToOptions) => Promise<boolean>
+
+    /** 滚动到指定的像素位置，align 指定该位置在视图中的对齐方式 */
+    scrollToOffset: (scrollTop: number, options?: ScrollToOptions) => Promise<boolean>
 
-    /** 将指定位置的列表项滚动到视图中，如果已在视图里则不会滚动，不在视图里则滚动到顶部 */
-    scrollIntoView: (index: number, offsetTop?: number) => Promise<boolean>
+    /** 滚动到底部 */
+    scrollToBottom: () => Promise<boolean>
 
-    /** 滚动到指定的像素位置 */
-    scrollToOffset: (scrollTop: number) => Promise<boolean>
+    /** 将指定 key 的列表项滚动到视图顶部，需要传入 getItemKey */
+    scrollToKey: (key: ItemKey, options?: number | ScrollToOptions) => Promise<boolean>
 
     /** 获取指定项的滚动信息 */
     getItemScrollTop: (index: number) => IItemScrollTop
 
+    /** 获取指定 key 的列表项的滚动信息，未找到时返回 null */
+    getItemScrollTopByKey: (key: ItemKey) => IItemScrollTop | null
+
+    /** 获取指定滚动位置处的列表项索引，grid 布局下返回该行的第一项，列表为空时返回 -1 */
+    getIndexAtOffset: (scrollTop: number) => number
+
+    /** 获取当前可见范围，基于最近一次滚动事件的滚动位置 */
+    getVisibleRange: () => VisibleRange
+
     /** 更新顶部内容高度 */
     updateHeaderHeight: () => Promise<void>
 
     /** 更新渲染列表 */
     updateRenderList: (callback?: () => void) => Promise<void>
 
+    /**
+     * 列表项内容高度变化后（如展开全文、图片加载完成）重新测量该项所在的页面
+     * - 只更新该页的高度与占位符，视图顶部的列表项保持原位置
+     * - 传入 `{ key }` 时按 key 查找列表项，需要传入 getItemKey
+     */
+    invalidateItem: (target: number | { key: ItemKey }) => Promise<boolean>
+
+    /** 重新测量指定页面，视图顶部的列表项保持原位置 */
+    invalidatePage: (pageIndex: number) => Promise<boolean>
+
     /** 获取滚动列表高度信息 */
     getScrollInfo: () => Promise<{ height: number; scrollHeight: number; scrollTop: number }>
 
     /** 获取指定页的滚动信息 */
     getPageScrollTop: (index: number) => { scrollTop: number; height: number; rendered: boolean; pageIndex: number }
+
+    /** 将指定分组（或分组内的指定项）滚动到视图顶部，仅在传入 sections 时可用 */
+    scrollToSection: (sectionIndex: number, itemIndex?: number, options?: number | ScrollToOptions) => Promise<boolean>
+
+    /** 选中所有列表项，包括当前为占位符的页面中的列表项，仅 multiple 模式可用 */
+    selectAll: () => void
+
+    /** 清空选中项 */
+    clearSelection: () => void
+
+    /** 选中 from 到 to（包含两端）之间的列表项，仅 multiple 模式可用 */
+    selectRange: (from: number, to: number) => void
+
+    /** 切换指定位置的列表项的选中状态 */
+    toggleSelection: (index: number) => void
+
+    /** 获取选中项的 key */
+    getSelectedKeys: () => ItemKey[]
 }
 
+/**
+ * 选择相关的列表方法，由 VirtualList 组件补充
+ */
+export type VirtualListSelectionMethods = Pick<
+    VirtualListRef,
+    'selectAll' | 'clearSelection' | 'selectRange' | 'toggleSelection' | 'getSelectedKeys'
+>
+
+/**
+ * useVirtualList 提供的列表方法，分组与选择相关方法由 VirtualList 组件补充
+ */
+export type VirtualListCoreMethods = Omit<VirtualListRef, 'scrollToSection' | keyof VirtualListSelectionMethods>
+
 /**
  * useVirtualList Hook 选项接口
  */
 export interface UseVirtualListOptions<T> {
     list: T[]
     listId: string
+    scope?: VirtualListScope
+    adapter: PlatformAdapter
     segmentNum: SegmentNumType
     getSegmentNum: GetSegmentNumFunction<T>
     screenNum: number
     guessItemHeight: number
+    itemHeight?: ItemHeightType<T>
+    direction: VirtualListDirection
+    columns: ColumnsType
+    layout: ListLayoutType
+    inverted: boolean
+    getItemKey?: GetItemKeyFunction<T>
+    onEndReachedThreshold: EndReachedThreshold
+    onEndReached?: EndReachedHandler
+    loadMore?: LoadMoreFunction
+    onRefresh?: () => Promise<void>
+    persistScroll: boolean
+    scrollAnchoring: boolean
+    onVisibleRangeChange?: VisibleRangeChangeHandler
     onScrollToEnd?: () => void
     onScroll?: ScrollEventHandler
 }
@@ -170,12 +598,28 @@ export interface UseVirtualListOptions<T> {
 export interface UseVirtualListReturn<T> {
     renderList: VirtualListSegment<T>[]
     isCompleted: boolean
+    /** 实际列数 */
+    columns: number
+    /** 获取瀑布流页面布局 */
+    getPageLayout: (pageIndex: number) => MasonryLayout | undefined
+    /** 获取指定页第一项在列表中的索引 */
+    getPageStart: (pageIndex: number) => number
+    /** 获取页面的 React key，传入 getItemKey 时取页面第一项的 key，页面索引变化后保持不变 */
+    getPageKey: (pageIndex: number) => string
+    /** 底部加载信息 */
+    footer: FooterInfo
+    /** 是否正在下拉刷新 */
+    refreshing: boolean
+    handleRefresh: () => Promise<void>
     handleScroll: ScrollEventHandler
-    methods: VirtualListRef
+    /** 固定渲染指定页面，占位符页面渲染为实际内容且不会被回收，传入空数组时取消固定 */
+    pinPages: (pageIndexes: number[]) => void
+    methods: VirtualListCoreMethods
 }
 
 /**
  * 滚动信息接口
+ * - horizontal 模式下分别对应 width、scrollWidth、scrollLeft
  */
 export interface ScrollInfo {
     height: number
@@ -183,6 +627,226 @@ export interface ScrollInfo {
     scrollTop: number
 }
 
+/**
+ * 列表变化区间
+ * - 旧列表 [start, prevEnd) 被替换为新列表 [start, nextEnd)
+ */
+export interface ListDiff {
+    /** 第一个变化项的索引（公共前缀长度） */
+    start: number
+    /** 旧列表中变化区间的结束位置（不含） */
+    prevEnd: number
+    /** 新列表中变化区间的结束位置（不含） */
+    nextEnd: number
+}
+
+/**
+ * 初始化完成后待恢复的滚动位置
+ * - bottom: 滚动到底部
+ * - anchor: 将 index 项滚动到距视图顶部 offset 的位置
+ */
+export type PendingPosition = { type: 'bottom' } | { type: 'anchor'; index: number; offset: number }
+
+/**
+ * 可见范围
+ */
+export interface VisibleRange {
+    /** 第一个可见项的索引 */
+    startIndex: number
+    /** 最后一个可见项的索引 */
+    endIndex: number
+    /** 第一个可见项所在的页 */
+    startPage: number
+    /** 最后一个可见项所在的页 */
+    endPage: number
+}
+
+/**
+ * 可见范围变化事件处理函数类型
+ */
+export type VisibleRangeChangeHandler = (range: VisibleRange) => void
+
+/**
+ * 滚动对齐方式
+ * - start / center / end：将目标对齐到视图的起始、中间或末尾
+ * - auto：目标已完整可见时不滚动，否则以最小的距离滚动到视图中
+ */
+export type ScrollAlign = 'start' | 'center' | 'end' | 'auto'
+
+/**
+ * 滚动选项
+ */
+export interface ScrollToOptions {
+    /**
+     * 对齐方式
+     * @default 'start'
+     */
+    align?: ScrollAlign
+    /**
+     * 是否使用滚动动画
+     * @default false
+     */
+    animated?: boolean
+    /**
+     * 目标与对齐边缘之间的距离，center 对齐时向起始方向偏移
+     * @default 0
+     */
+    offset?: number
+}
+
+/**
+ * 节点查询与观察器的作用域，页面实例或自定义组件实例
+ */
+export type VirtualListScope = TaroGeneral.IAnyObject
+
+/**
+ * 节点相对视窗的位置与尺寸
+ */
+export interface NodeRect {
+    top: number
+    left: number
+    width: number
+    height: number
+}
+
+/**
+ * 滚动容器的尺寸与滚动偏移
+ */
+export interface ScrollMetrics {
+    width: number
+    height: number
+    scrollWidth: number
+    scrollHeight: number
+    scrollTop: number
+    scrollLeft: number
+}
+
+/**
+ * 可见性观察选项
+ */
+export interface ObserveVisibilityOptions {
+    /** 参照区域的节点选择器，即列表的 ScrollView */
+    root: string
+    /** 参照区域各边向外扩展的距离 */
+    rootMargin?: Partial<Record<'top' | 'bottom' | 'left' | 'right', number>>
+    /** 触发回调的相交比例 */
+    thresholds?: number[]
+    /** 是否观察所有匹配的节点 */
+    observeAll?: boolean
+}
+
+/**
+ * 节点与参照区域的相交状态
+ */
+export interface VisibilityEntry {
+    /** 节点 id */
+    id?: string
+    /** 相交区域占节点的比例 */
+    intersectionRatio: number
+    /** 相交区域的宽高是否均大于 0 */
+    isIntersecting: boolean
+}
+
+/**
+ * 可见性观察器
+ */
+export interface VisibilityObserver {
+    disconnect: () => void
+}
+
+/**
+ * 平台适配器，封装节点测量、可见性观察与滚动位置读写
+ * - 内置 weapp、h5 与其它平台通用的 taro 适配器，默认按 Taro.getEnv() 选择
+ * - scope 为节点查询与观察器的作用域，h5 下可忽略
+ */
+export interface PlatformAdapter {
+    /** 适配器名称 */
+    name: string
+    /**
+     * 滚动时是否按滚动位置回收页面
+     * - 可见性观察可靠的平台为 false，页面回收完全由观察器决定
+     */
+    recycleOnScroll: boolean
+    /** 测量节点，节点不存在时返回 null */
+    measure: (selector: string, scope?: VirtualListScope) => Promise<NodeRect | null>
+    /** 测量所有匹配的节点 */
+    measureAll: (selector: string, scope?: VirtualListScope) => Promise<NodeRect[]>
+    /** 读取滚动容器的尺寸与滚动偏移，节点不存在时返回 null */
+    getScrollMetrics: (selector: string, scope?: VirtualListScope) => Promise<ScrollMetrics | null>
+    /** 设置滚动容器的滚动偏移，无法滚动时返回 false */
+    scrollTo: (
+        selector: string,
+        position: Partial<Record<'top' | 'left', number>>,
+        animated: boolean,
+        scope?: VirtualListScope
+    ) => Promise<boolean>
+    /** 观察节点与参照区域的相交状态 */
+    observe: (
+        selector: string,
+        options: ObserveVisibilityOptions,
+        callback: (entry: VisibilityEntry) => void,
+        scope?: VirtualListScope
+    ) => VisibilityObserver
+}
+
+/**
+ * 列表项动画配置
+ */
+export interface ItemAnimationConfig {
+    /**
+     * 动画时长（毫秒）
+     * @default 300
+     */
+    duration?: number
+}
+
+/**
+ * 曝光规则
+ */
+export interface ViewabilityConfig {
+    /**
+     * 列表项可见部分占自身的比例达到该值才视为可见，取值 0 ~ 1
+     * @default 0.5
+     */
+    itemVisibleRatio?: number
+    /**
+     * 持续可见达到该时长（毫秒）后记为曝光
+     * @default 1000
+     */
+    minimumViewTime?: number
+}
+
+/**
+ * 曝光的列表项
+ */
+export interface ViewableItem<T = any> {
+    /** 列表项数据 */
+    item: T
+    /** 列表项在整个列表中的索引 */
+    index: number
+    /** 列表项唯一标识，传入 getItemKey 时存在 */
+    key?: ItemKey
+    /** 曝光时的可见比例 */
+    ratio: number
+}
+
+/**
+ * 曝光事件处理函数类型
+ */
+export type ViewableItemsChangedHandler<T = any> = (items: ViewableItem<T>[]) => void
+
+/**
+ * 保存到存储中的滚动位置
+ */
+export interface PersistedScrollState {
+    /** 视图顶部的锚点项索引 */
+    index: number
+    /** 视图顶部在锚点项内的偏移 */
+    offset: number
+    /** 锚点项附近已测量的列表项高度，[列表索引, 高度] */
+    heights: Array<[number, number]>
+}
+
 /**
  * 页面信息接口
  */
@@ -212,7 +876,7 @@ export type QueryCacheMap<T = any> = Map<string, QueryCacheItem<T>>
 /**
  * 观察器状态映射类型
  */
-export type ObserverMap = Map<number, Taro.IntersectionObserver>
+export type ObserverMap = Map<number, VisibilityObserver>
 
 /**
  * 观察器创建状态集合类型
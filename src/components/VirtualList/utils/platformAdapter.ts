@@ -0,0 +1,211 @@
+import Taro, { ScrollViewContext } from '@tarojs/taro'
+
+import type { NodeRect, PlatformAdapter, ScrollMetrics, VirtualListScope, VisibilityObserver } from '../types'
+
+const toNodeRect = (rect?: Partial<NodeRect> | null): NodeRect | null =>
+    rect
+        ? {
+              top: rect.top || 0,
+              left: rect.left || 0,
+              width: rect.width || 0,
+              height: rect.height || 0
+          }
+        : null
+
+/**
+ * 创建 SelectorQuery，传入作用域时在作用域内查询
+ */
+const createQuery = (scope?: VirtualListScope) => {
+    const query = Taro.createSelectorQuery()
+    if (scope) {
+        query.in(scope)
+    }
+    return query
+}
+
+interface MiniProgramAdapterOptions {
+    name: string
+    recycleOnScroll: boolean
+}
+
+/**
+ * 基于 Taro SelectorQuery 与 IntersectionObserver 的小程序适配器
+ * - 滚动通过 ScrollView 节点的 ScrollViewContext 设置，需要开启 enhanced
+ */
+const createMiniProgramAdapter = ({ name, recycleOnScroll }: MiniProgramAdapterOptions): PlatformAdapter => ({
+    name,
+    recycleOnScroll,
+
+    measure: (selector, scope) =>
+        new Promise((resolve) => {
+            const query = createQuery(scope)
+            query.select(selector).boundingClientRect()
+            query.exec(([res] = []) => {
+                resolve(toNodeRect(Array.isArray(res) ? res[0] : res))
+            })
+        }),
+
+    measureAll: (selector, scope) =>
+        new Promise((resolve) => {
+            const query = createQuery(scope)
+            query.selectAll(selector).boundingClientRect()
+            query.exec(([res] = []) => {
+                const rects = (Array.isArray(res) ? res : [res]).map(toNodeRect)
+                resolve(rects.filter((rect): rect is NodeRect => rect !== null))
+            })
+        }),
+
+    getScrollMetrics: (selector, scope) =>
+        new Promise((resolve) => {
+            const query = createQuery(scope)
+            query.select(selector).fields({ size: true, scrollOffset: true }, (res) => {
+                resolve(
+                    res
+                        ? {
+                              width: res.width || 0,
+                              height: res.height || 0,
+                              scrollWidth: res.scrollWidth || 0,
+                              scrollHeight: res.scrollHeight || 0,
+                              scrollTop: res.scrollTop || 0,
+                              scrollLeft: res.scrollLeft || 0
+                          }
+                        : null
+                )
+            })
+            query.exec()
+        }),
+
+    scrollTo: (selector, position, animated, scope) =>
+        new Promise((resolve) => {
+            const query = createQuery(scope)
+            query.select(selector).node((res) => {
+                const scrollViewNode = res?.node as ScrollViewContext | undefined
+                if (!scrollViewNode?.scrollTo) {
+                    resolve(false)
+                    return
+                }
+                scrollViewNode.scrollTo({ ...position, animated })
+                resolve(true)
+            })
+            query.exec()
+        }),
+
+    observe: (selector, { root, rootMargin, thresholds, observeAll }, callback, scope) => {
+        const observer = Taro.createIntersectionObserver(scope ?? Taro.getCurrentInstance().page!, {
+            thresholds,
+            observeAll
+        }).relativeTo(root, rootMargin)
+
+        observer.observe(selector, (res) => {
+            const { id } = res as Taro.IntersectionObserver.ObserveCallbackResult & { id?: string }
+            callback({
+                id,
+                intersectionRatio: res?.intersectionRatio || 0,
+                isIntersecting: Boolean(res?.intersectionRect?.height && res?.intersectionRect?.width)
+            })
+        })
+        return observer
+    }
+})
+
+/**
+ * 微信小程序适配器，IntersectionObserver 可靠，页面回收完全由观察器决定
+ */
+export const weappAdapter = createMiniProgramAdapter({ name: 'weapp', recycleOnScroll: false })
+
+/**
+ * Taro 通用适配器，用于微信小程序与 H5 以外的平台（支付宝、抖音等）
+ * - 与 weappAdapter 使用相同的接口，观察器回调不可靠，滚动时同时按滚动位置回收页面
+ */
+export const taroAdapter = createMiniProgramAdapter({ name: 'taro', recycleOnScroll: true })
+
+const queryElement = (selector: string) =>
+    typeof document === 'undefined' ? null : document.querySelector<HTMLElement>(selector)
+
+const queryElements = (selector: string) =>
+    typeof document === 'undefined' ? [] : Array.from(document.querySelectorAll<HTMLElement>(selector))
+
+/**
+ * H5 适配器，直接读取 DOM 并使用原生 IntersectionObserver
+ * - 选择器以 listId 区分，无需作用域
+ */
+export const h5Adapter: PlatformAdapter = {
+    name: 'h5',
+    recycleOnScroll: false,
+
+    measure: async (selector) => {
+        const element = queryElement(selector)
+        return element ? toNodeRect(element.getBoundingClientRect()) : null
+    },
+
+    measureAll: async (selector) =>
+        queryElements(selector)
+            .map((element) => toNodeRect(element.getBoundingClientRect()))
+            .filter((rect): rect is NodeRect => rect !== null),
+
+    getScrollMetrics: async (selector): Promise<ScrollMetrics | null> => {
+        const element = queryElement(selector)
+        if (!element) return null
+        return {
+            width: element.clientWidth,
+            height: element.clientHeight,
+            scrollWidth: element.scrollWidth,
+            scrollHeight: element.scrollHeight,
+            scrollTop: element.scrollTop,
+            scrollLeft: element.scrollLeft
+        }
+    },
+
+    scrollTo: async (selector, position, animated) => {
+        const element = queryElement(selector)
+        if (!element) return false
+        if (typeof element.scrollTo === 'function') {
+            element.scrollTo({ ...position, behavior: animated ? 'smooth' : 'auto' })
+        } else {
+            if (position.top !== undefined) element.scrollTop = position.top
+            if (position.left !== undefined) element.scrollLeft = position.left
+        }
+        return true
+    },
+
+    observe: (selector, { root, rootMargin = {}, thresholds = [0], observeAll }, callback): VisibilityObserver => {
+        const rootElement = queryElement(root)
+        if (typeof IntersectionObserver === 'undefined' || !rootElement) {
+            throw new Error('IntersectionObserver 不可用或参照节点不存在')
+        }
+
+        const { top = 0, right = 0, bottom = 0, left = 0 } = rootMargin
+        const observer = new IntersectionObserver(
+            (entries) => {
+                entries.forEach((entry) => {
+                    callback({
+                        id: (entry.target as HTMLElement).id,
+                        intersectionRatio: entry.intersectionRatio,
+                        isIntersecting: entry.intersectionRect.width > 0 && entry.intersectionRect.height > 0
+                    })
+                })
+            },
+            { root: rootElement, rootMargin: `${top}px ${right}px ${bottom}px ${left}px`, threshold: thresholds }
+        )
+
+        const targets = observeAll ? queryElements(selector) : [queryElement(selector)]
+        targets.forEach((target) => {
+            if (target) observer.observe(target)
+        })
+        return observer
+    }
+}
+
+/**
+ * 按当前运行环境选择内置适配器
+ */
+export const getPlatformAdapter = (): PlatformAdapter => {
+    switch (Taro.getEnv()) {
+        case Taro.ENV_TYPE.WEAPP:
+            return weappAdapter
+        case Taro.ENV_TYPE.WEB:
+            return h5Adapter
+        default:
+            return taroAdapter
+    }
+}
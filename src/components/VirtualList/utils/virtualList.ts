@@ -1,4 +1,17 @@
-import Taro, { ScrollViewContext } from '@tarojs/taro'
+import type {
+    AxisKeys,
+    ColumnsType,
+    EndReachedThreshold,
+    ItemKey,
+    ListDiff,
+    MasonryLayout,
+    PlatformAdapter,
+    ScrollToOptions,
+    SectionListEntry,
+    VirtualListDirection,
+    VirtualListScope,
+    VirtualListSection
+} from '../types'
 
 /**
  * 节流函数工具类
@@ -89,6 +102,321 @@ export const getSegmentList = <T = any>(list: T[], segmentNum: number): T[][] =>
     return result
 }
 
+const VERTICAL_AXIS: AxisKeys = {
+    size: 'height',
+    crossSize: 'width',
+    crossStart: 'left',
+    scrollSize: 'scrollHeight',
+    scrollOffset: 'scrollTop',
+    start: 'top',
+    end: 'bottom'
+}
+
+const HORIZONTAL_AXIS: AxisKeys = {
+    size: 'width',
+    crossSize: 'height',
+    crossStart: 'top',
+    scrollSize: 'scrollWidth',
+    scrollOffset: 'scrollLeft',
+    start: 'left',
+    end: 'right'
+}
+
+/**
+ * 获取滚动方向对应的节点属性名
+ */
+export const getAxisKeys = (direction: VirtualListDirection = 'vertical'): AxisKeys => {
+    return direction === 'horizontal' ? HORIZONTAL_AXIS : VERTICAL_AXIS
+}
+
+/**
+ * 比较前后两个列表，找出公共前缀与公共后缀之间发生变化的区间
+ * - 通过引用比较列表项，追加、向前插入、原地修改、插入与删除均只影响变化区间
+ */
+export const diffList = <T = any>(prev: T[], next: T[]): ListDiff => {
+    const minLength = Math.min(prev.length, next.length)
+    let start = 0
+    while (start < minLength && prev[start] === next[start]) {
+        start++
+    }
+
+    let prevEnd = prev.length
+    let nextEnd = next.length
+    while (prevEnd > start && nextEnd > start && prev[prevEnd - 1] === next[nextEnd - 1]) {
+        prevEnd--
+        nextEnd--
+    }
+
+    return { start, prevEnd, nextEnd }
+}
+
+/**
+ * 将分组数据展开为列表，每个分组以分组头开始
+ * @param sections 分组数据
+ * @param cache 展开项缓存，复用未变化的展开项，使列表增量更新能够通过引用识别未变化的项
+ * @returns list 展开后的列表，sectionStarts 每个分组头在列表中的索引
+ */
+export const flattenSections = <T = any>(
+    sections: VirtualListSection<T>[] = [],
+    cache?: WeakMap<object, SectionListEntry<T>>
+) => {
+    const list: SectionListEntry<T>[] = []
+    const sectionStarts: number[] = []
+
+    const reuse = (key: unknown, entry: SectionListEntry<T>) => {
+        if (!cache || typeof key !== 'object' || key === null) {
+            return entry
+        }
+        const cached = cache.get(key)
+        // 分组头比较分组引用，分组内的列表项比较分组 key 与位置
+        const reusable =
+            cached &&
+            cached.sectionIndex === entry.sectionIndex &&
+            (cached.type === 'header'
+                ? entry.type === 'header' && cached.section === entry.section
+                : entry.type === 'item' &&
+                  cached.section.key === entry.section.key &&
+                  cached.itemIndex === entry.itemIndex)
+        if (reusable) {
+            return cached
+        }
+        cache.set(key, entry)
+        return entry
+    }
+
+    sections.forEach((section, sectionIndex) => {
+        sectionStarts.push(list.length)
+        list.push(reuse(section, { type: 'header', section, sectionIndex }))
+        section.data.forEach((item, itemIndex) => {
+            list.push(reuse(item, { type: 'item', item, section, sectionIndex, itemIndex }))
+        })
+    })
+
+    return { list, sectionStarts }
+}
+
+/**
+ * 计算实际列数
+ * @param columns 列数或根据容器宽度计算列数的函数
+ * @param containerSize 容器交叉轴尺寸（纵向滚动时为宽度）
+ */
+export const resolveColumns = (columns: ColumnsType = 1, containerSize = 0): number => {
+    const value = typeof columns === 'function' ? columns(containerSize) : columns
+    return Number.isFinite(value) && value >= 1 ? Math.floor(value) : 1
+}
+
+/**
+ * 将列表项高度按行合并，每行取最高项作为行高
+ * @param items 列表项高度
+ * @param columns 列数
+ */
+export const getRowHeights = (items: number[], columns: number): number[] => {
+    if (columns <= 1) {
+        return items
+    }
+
+    const rows: number[] = []
+    for (let i = 0; i < items.length; i += columns) {
+        rows.push(Math.max(...items.slice(i, i + columns)))
+    }
+    return rows
+}
+
+/**
+ * 计算瀑布流布局，依次将每项放入当前最短的列
+ * - 页面尺寸取最短列的结束位置，更长的列延伸到下一页，下一页从各列的结束位置继续排列
+ * @param items 列表项高度
+ * @param columns 列数
+ * @param startHeights 各列在页面顶部已占用的高度，即上一页各列超出上一页的部分
+ */
+export const getMasonryLayout = (items: number[], columns: number, startHeights?: number[]): MasonryLayout => {
+    const count = Math.max(1, columns)
+    const heights: number[] = Array.from({ length: count }, (_, lane) => Math.max(0, startHeights?.[lane] ?? 0))
+    const lanes: number[] = []
+    const offsets: number[] = []
+
+    items.forEach((height) => {
+        let lane = 0
+        for (let i = 1; i < heights.length; i++) {
+            if (heights[i] < heights[lane]) {
+                lane = i
+            }
+        }
+        lanes.push(lane)
+        offsets.push(heights[lane])
+        heights[lane] += height
+    })
+
+    return { lanes, offsets, heights, size: Math.min(...heights) }
+}
+
+/**
+ * 计算每行顶部相对页面顶部的偏移（行高的前缀和）
+ * @param items 每项的尺寸
+ * @param columns 每行的列数
+ */
+export const getRowOffsets = (items: number[], columns: number): number[] => {
+    const offsets: number[] = []
+    let offset = 0
+    getRowHeights(items, columns).forEach((height) => {
+        offsets.push(offset)
+        offset += height
+    })
+    return offsets
+}
+
+/**
+ * 树状数组（Fenwick Tree），维护页面尺寸的前缀和
+ * - 单点更新与前缀和查询均为 O(log n)，页面测量后只需更新对应的页
+ */
+export class FenwickTree {
+    private tree: number[]
+    private values: number[]
+
+    constructor(values: number[] = []) {
+        this.values = [...values]
+        this.tree = new Array(values.length + 1).fill(0)
+        // 按顺序将每个节点累加到父节点，O(n) 建树
+        for (let node = 1; node <= values.length; node++) {
+            this.tree[node] += values[node - 1]
+            const parent = node + (node & -node)
+            if (parent <= values.length) {
+                this.tree[parent] += this.tree[node]
+            }
+        }
+    }
+
+    /**
+     * 元素数量
+     */
+    get size() {
+        return this.values.length
+    }
+
+    /**
+     * 获取指定位置的值
+     */
+    get(index: number) {
+        return this.values[index] ?? 0
+    }
+
+    /**
+     * 更新指定位置的值
+     */
+    set(index: number, value: number) {
+        if (index < 0 || index >= this.values.length) return
+        const delta = value - this.values[index]
+        if (delta === 0) return
+
+        this.values[index] = value
+        for (let node = index + 1; node <= this.values.length; node += node & -node) {
+            this.tree[node] += delta
+        }
+    }
+
+    /**
+     * 前 count 个元素之和
+     */
+    prefixSum(count: number) {
+        let sum = 0
+        for (let node = Math.min(count, this.values.length); node > 0; node -= node & -node) {
+            sum += this.tree[node]
+        }
+        return sum
+    }
+}
+
+/**
+ * 比较两个瀑布流布局是否一致
+ */
+export const isSameMasonryLayout = (a?: MasonryLayout, b?: MasonryLayout): boolean => {
+    if (!a || !b) return a === b
+    if (a.offsets.length !== b.offsets.length || a.heights.length !== b.heights.length) return false
+    return (
+        a.size === b.size &&
+        a.heights.every((height, i) => height === b.heights[i]) &&
+        a.offsets.every((offset, i) => offset === b.offsets[i] && a.lanes[i] === b.lanes[i])
+    )
+}
+
+/**
+ * 将触底阈值换算为像素
+ * @param threshold 数字表示屏数，'100px' 形式表示像素
+ * @param viewSize 视图尺寸
+ */
+export const resolveThreshold = (threshold: EndReachedThreshold, viewSize: number): number => {
+    if (typeof threshold === 'number') {
+        return threshold * viewSize
+    }
+    return parseFloat(threshold) || 0
+}
+
+/**
+ * 统一滚动选项，数字表示 start 对齐时距视图顶部的距离
+ */
+export const resolveScrollOptions = (options?: number | ScrollToOptions): Required<ScrollToOptions> => {
+    if (typeof options === 'number') {
+        return { align: 'start', animated: false, offset: options }
+    }
+    return {
+        align: options?.align ?? 'start',
+        animated: options?.animated ?? false,
+        offset: options?.offset ?? 0
+    }
+}
+
+/**
+ * 按对齐方式计算目标的滚动位置，未做边界检查
+ * @param start 目标起始位置
+ * @param size 目标尺寸
+ * @param scrollOffset 当前滚动位置
+ * @param viewSize 视图尺寸
+ */
+export const getAlignedScrollOffset = (
+    { start, size, scrollOffset, viewSize }: { start: number; size: number; scrollOffset: number; viewSize: number },
+    { align = 'start', offset = 0 }: Pick<ScrollToOptions, 'align' | 'offset'> = {}
+): number => {
+    const alignStart = start - offset
+    const alignEnd = start + size - viewSize + offset
+
+    switch (align) {
+        case 'center':
+            return start + (size - viewSize) / 2 - offset
+        case 'end':
+            return alignEnd
+        case 'auto':
+            // 目标比视图大或在视图前方时对齐起始，在视图后方时对齐末尾，已完整可见时不滚动
+            if (size + offset * 2 > viewSize || alignStart < scrollOffset) return alignStart
+            if (alignEnd > scrollOffset) return alignEnd
+            return scrollOffset
+        default:
+            return alignStart
+    }
+}
+
+/**
+ * 获取页面节点的 class，以 listId 为前缀，同一页面中的多个列表互不干扰
+ */
+export const getPageClassName = (listId: string, pageIndex: number): string => `${listId}-page-${pageIndex}`
+
+/**
+ * 获取页内列表项节点的 class，以 listId 为前缀
+ */
+export const getPageItemClassName = (listId: string, pageIndex: number): string =>
+    `${getPageClassName(listId, pageIndex)}-item`
+
+/**
+ * 获取列表项节点的 id，以 listId 为前缀
+ * - 传入 key 时使用 key 生成，列表项所在页变化后 id 保持不变
+ * - key 中除字母、数字与 - 以外的字符（包括 _）转义为 _ 加十六进制码点再加 _，保证不同的 key 不会得到相同的 id
+ */
+export const getItemElementId = (listId: string, pageIndex: number, index: number, key?: ItemKey): string => {
+    if (key === undefined) {
+        return `${listId}-item-${pageIndex}-${index}`
+    }
+    return `${listId}-item-k-${String(key).replace(/[^a-zA-Z0-9-]/gu, (c) => `_${c.codePointAt(0)!.toString(16)}_`)}`
+}
+
 /**
  * 选择器工具类 - 添加缓存和更好的性能
  */
@@ -130,16 +458,30 @@ export class SelectorUtils {
      * @param pageIndex 页面索引
      */
     getPageSelector(pageIndex: number) {
-        return this.getCachedSelector(`page-${pageIndex}`, () => `${this.getVlSelector()} .vl-page-${pageIndex}`)
+        return this.getCachedSelector(
+            `page-${pageIndex}`,
+            () => `${this.getVlSelector()} .${getPageClassName(this.listId, pageIndex)}`
+        )
     }
 
     /**
      * 仅返回页面的 class 选择器，用于 IntersectionObserver
      * 小程序的 IntersectionObserver 对后代选择器支持较弱，
-     * 使用简单选择器能显著提高兼容性。
+     * 使用简单选择器能显著提高兼容性，class 以 listId 为前缀，不会命中其它列表的页面。
      */
     getPageClass(pageIndex: number) {
-        return this.getCachedSelector(`page-class-${pageIndex}`, () => `.vl-page-${pageIndex}`)
+        return this.getCachedSelector(`page-class-${pageIndex}`, () => `.${getPageClassName(this.listId, pageIndex)}`)
+    }
+
+    /**
+     * 获取页内项目的 class 选择器，用于逐项观察的 IntersectionObserver
+     * @param pageIndex 页面索引
+     */
+    getPageItemClass(pageIndex: number) {
+        return this.getCachedSelector(
+            `page-item-class-${pageIndex}`,
+            () => `.${getPageItemClassName(this.listId, pageIndex)}`
+        )
     }
 
     /**
@@ -154,9 +496,16 @@ export class SelectorUtils {
      * 获取具体项目的选择器
      * @param pageIndex 页面索引
      * @param itemIndex 页面内的项目索引
+     * @param itemKey 项目的 key，传入时按 key 生成选择器
      */
-    getSpecificItemSelector(pageIndex: number, itemIndex: number) {
-        return this.getCachedSelector(`item-${pageIndex}-${itemIndex}`, () => `#vl-item-${pageIndex}-${itemIndex}`)
+    getSpecificItemSelector(pageIndex: number, itemIndex: number, itemKey?: ItemKey) {
+        if (itemKey !== undefined) {
+            return `#${getItemElementId(this.listId, pageIndex, itemIndex, itemKey)}`
+        }
+        return this.getCachedSelector(
+            `item-${pageIndex}-${itemIndex}`,
+            () => `#${getItemElementId(this.listId, pageIndex, itemIndex)}`
+        )
     }
 
     /**
@@ -169,17 +518,29 @@ export class SelectorUtils {
 
 /**
  * 查询工具类 - 添加缓存和错误重试机制
+ * - 节点测量与滚动均通过平台适配器执行
  */
 export class QueryUtils {
     private selectorUtils: SelectorUtils
-    private context?: Taro.PageInstance
+    // 查询作用域，页面实例或自定义组件实例
+    private context?: VirtualListScope
+    private adapter: PlatformAdapter
+    // 主轴属性名，horizontal 模式下读取宽度与 scrollLeft
+    private axis: AxisKeys
     // 查询结果缓存
     private queryCache = new Map<string, { data: any; timestamp: number }>()
     private readonly CACHE_TTL = 1000 // 缓存存活时间 1秒
 
-    constructor(selectorUtils: SelectorUtils, context?: Taro.PageInstance) {
+    constructor(
+        selectorUtils: SelectorUtils,
+        adapter: PlatformAdapter,
+        context?: VirtualListScope,
+        direction?: VirtualListDirection
+    ) {
         this.selectorUtils = selectorUtils
+        this.adapter = adapter
         this.context = context
+        this.axis = getAxisKeys(direction)
     }
 
     /**
@@ -203,105 +564,80 @@ export class QueryUtils {
 
     /**
      * 获取滚动视图信息 - 添加错误处理和重试机制
+     * - 返回主轴方向的尺寸与滚动偏移
      */
     async getScrollViewInfo(useCache = false) {
         return this.getCachedQuery(
             'scrollViewInfo',
-            () =>
-                new Promise<{ height: number; scrollHeight: number; scrollTop: number }>((resolve, reject) => {
-                    const query = Taro.createSelectorQuery()
-                    if (this.context) {
-                        query.in(this.context)
+            async () => {
+                const maxRetries = 3
+                for (let retryCount = 0; ; retryCount++) {
+                    const res = await this.adapter.getScrollMetrics(this.selectorUtils.getVlSelector(), this.context)
+                    if (res && (res[this.axis.size] > 0 || retryCount >= maxRetries)) {
+                        return {
+                            height: res[this.axis.size],
+                            scrollHeight: res[this.axis.scrollSize],
+                            scrollTop: res[this.axis.scrollOffset]
+                        }
                     }
-
-                    let retryCount = 0
-                    const maxRetries = 3
-
-                    const executeQuery = () => {
-                        query
-                            .select(this.selectorUtils.getVlSelector())
-                            .fields({ size: true, scrollOffset: true }, (res) => {
-                                if (res && (res.height > 0 || retryCount >= maxRetries)) {
-                                    resolve({
-                                        height: res?.height || 0,
-                                        scrollHeight: res?.scrollHeight || 0,
-                                        scrollTop: res?.scrollTop || 0
-                                    })
-                                } else if (retryCount < maxRetries) {
-                                    retryCount++
-                                    setTimeout(executeQuery, 50 * retryCount)
-                                } else {
-                                    reject(new Error('Failed to get scroll view info after retries'))
-                                }
-                            })
-                        query.exec()
+                    if (retryCount >= maxRetries) {
+                        throw new Error('Failed to get scroll view info after retries')
                     }
-
-                    executeQuery()
-                }),
+                    await new Promise((resolve) => setTimeout(resolve, 50 * (retryCount + 1)))
+                }
+            },
             useCache
         )
     }
 
     /**
-     * 获取滚动视图节点
+     * 获取滚动视图交叉轴尺寸（纵向滚动时为宽度）
      */
-    async getScrollViewNode() {
-        return new Promise<ScrollViewContext>((resolve) => {
-            const query = Taro.createSelectorQuery()
-            if (this.context) {
-                query.in(this.context)
-            }
+    async getScrollViewCrossSize() {
+        const res = await this.adapter.getScrollMetrics(this.selectorUtils.getVlSelector(), this.context)
+        return res?.[this.axis.crossSize] || 0
+    }
 
-            query.select(this.selectorUtils.getVlSelector()).node((res) => {
-                resolve(res?.node as ScrollViewContext)
-            })
-            query.exec()
-        })
+    /**
+     * 获取滚动视图在屏幕上的起始位置（纵向滚动时为 top）
+     */
+    async getScrollViewStart() {
+        const rect = await this.adapter.measure(this.selectorUtils.getVlSelector(), this.context)
+        return rect?.[this.axis.start] || 0
+    }
+
+    /**
+     * 设置滚动视图的滚动位置，不做边界检查
+     */
+    async scrollTo(scrollTop: number, animated = false) {
+        return this.adapter.scrollTo(
+            this.selectorUtils.getVlSelector(),
+            { [this.axis.start]: scrollTop },
+            animated,
+            this.context
+        )
     }
 
     /**
      * 获取头部高度
      */
     async getHeaderHeight() {
-        return new Promise<number>((resolve) => {
-            const query = Taro.createSelectorQuery()
-            if (this.context) {
-                query.in(this.context)
-            }
-            query.select(this.selectorUtils.getHeaderSelector()).fields({ size: true }, (res) => {
-                resolve(res?.height || 0)
-            })
-            query.exec()
-        })
+        const rect = await this.adapter.measure(this.selectorUtils.getHeaderSelector(), this.context)
+        return rect?.[this.axis.size] || 0
     }
 
     /**
      * 获取页面信息
      */
     async getPageInfo(pageIndex: number) {
-        return new Promise<{ height: number; items: { height: number }[] }>((resolve) => {
-            const query = Taro.createSelectorQuery()
-            if (this.context) {
-                query.in(this.context)
-            }
-
-            // 获取页面高度
-            query.select(this.selectorUtils.getPageSelector(pageIndex)).boundingClientRect()
-
-            // 获取所有子项高度
-            query.selectAll(this.selectorUtils.getItemSelector(pageIndex)).boundingClientRect()
-            query.exec(([pageRes, itemsRes]) => {
-                const items = (Array.isArray(itemsRes) ? itemsRes : [itemsRes])
-                    .filter(Boolean)
-                    .map((item) => ({ height: item?.height || 0 }))
-
-                resolve({
-                    height: pageRes?.height || 0,
-                    items
-                })
-            })
-        })
+        const [pageRect, itemRects] = await Promise.all([
+            this.adapter.measure(this.selectorUtils.getPageSelector(pageIndex), this.context),
+            this.adapter.measureAll(this.selectorUtils.getItemSelector(pageIndex), this.context)
+        ])
+        return {
+            height: pageRect?.[this.axis.size] || 0,
+            items: itemRects.map((item) => ({ height: item[this.axis.size] }))
+        }
     }
 
     /**
@@ -312,21 +648,15 @@ export class QueryUtils {
             `exists-${selector}`,
             () =>
                 new Promise<boolean>((resolve) => {
-                    const query = Taro.createSelectorQuery()
-                    if (this.context) {
-                        query.in(this.context)
-                    }
-
                     // 设置超时，避免长时间等待
                     const timeout = setTimeout(() => {
                         resolve(false)
                     }, 5000)
 
-                    query.select(selector).boundingClientRect()
-                    query.exec(([res]) => {
+                    this.adapter.measure(selector, this.context).then((rect) => {
                         clearTimeout(timeout)
                         // 检查元素是否真的存在并且有有效的尺寸
-                        resolve(!!(res && (res.width > 0 || res.height > 0)))
+                        resolve(!!(rect && (rect.width > 0 || rect.height > 0)))
                     })
                 }),
             useCache
@@ -341,65 +671,52 @@ export class QueryUtils {
     }
 
     /**
-     * 滚动到指定元素（将元素滚动到可视区顶部）
+     * 计算将指定元素按对齐方式滚动到视图中的滚动位置，已做边界检查
+     * - 元素或滚动容器不存在时返回 null
      */
-    async scrollToElement(
-        selector: string,
-        {
-            offsetTop = 0,
-            ...options
-        }: Omit<Parameters<ScrollViewContext['scrollTo']>[0], 'top'> & { offsetTop?: number } = {
-            animated: false
-        }
-    ) {
-        return new Promise<boolean>((resolve) => {
-            const query = Taro.createSelectorQuery()
-            if (this.context) {
-                query.in(this.context)
+    async getElementScrollOffset(selector: string, options: Pick<ScrollToOptions, 'align' | 'offset'> = {}) {
+        try {
+            // 获取目标元素的位置信息，以及滚动容器的位置和滚动信息
+            const [elementRect, containerRect, scrollMetrics] = await Promise.all([
+                this.adapter.measure(selector, this.context),
+                this.adapter.measure(this.selectorUtils.getVlSelector(), this.context),
+                this.adapter.getScrollMetrics(this.selectorUtils.getVlSelector(), this.context)
+            ])
+
+            if (!elementRect || !containerRect || !scrollMetrics) {
+                console.warn('获取元素位置或滚动容器信息失败')
+                return null
             }
 
-            try {
-                // 获取目标元素的位置信息
-                query.select(selector).boundingClientRect()
-
-                // 获取滚动容器的位置和滚动信息
-                query.select(this.selectorUtils.getVlSelector()).boundingClientRect()
-                query.select(this.selectorUtils.getVlSelector()).scrollOffset()
-                query.select(this.selectorUtils.getVlSelector()).node()
-
-                query.exec((res) => {
-                    const elementRect = res[0]
-                    const containerRect = res[1]
-                    const scrollOffset = res[2]
-                    const scrollViewNode = res[3]?.node as ScrollViewContext
-
-                    if (!elementRect || !containerRect || !scrollOffset || !scrollViewNode) {
-                        console.warn('获取元素位置或滚动容器信息失败')
-                        resolve(false)
-                        return
-                    }
-
-                    // 计算目标滚动位置
-                    // elementRect.top 是相对于可视区域的位置
-                    // 需要加上当前滚动位置，再减去容器顶部位置
-                    const targetScrollTop = scrollOffset.scrollTop + elementRect.top - containerRect.top
-                    const finalScrollTop = Math.min(Math.max(targetScrollTop - offsetTop, 0), scrollOffset.scrollHeight)
-
-                    if (scrollViewNode.scrollTo) {
-                        scrollViewNode.scrollTo({
-                            top: finalScrollTop,
-                            ...options
-                        })
+            const { start, size, scrollOffset: offsetKey, scrollSize } = this.axis
+            const viewSize = containerRect[size]
+
+            // elementRect.top 是相对于可视区域的位置
+            // 需要加上当前滚动位置，再减去容器顶部位置
+            const targetScrollTop = getAlignedScrollOffset(
+                {
+                    start: scrollMetrics[offsetKey] + elementRect[start] - containerRect[start],
+                    size: elementRect[size],
+                    scrollOffset: scrollMetrics[offsetKey],
+                    viewSize
+                },
+                options
+            )
+            return Math.min(Math.max(targetScrollTop, 0), Math.max(0, scrollMetrics[scrollSize] - viewSize))
+        } catch {
+            return null
+        }
+    }
 
-                        resolve(true)
-                    } else {
-                        resolve(false)
-                    }
-                })
-            } catch {
-                resolve(false)
-            }
-        })
+    /**
+     * 滚动到指定元素（默认将元素滚动到可视区顶部，horizontal 模式下为左侧）
+     */
+    async scrollToElement(selector: string, { animated = false, ...options }: ScrollToOptions = {}) {
+        const targetScrollTop = await this.getElementScrollOffset(selector, options)
+        if (targetScrollTop === null) {
+            return false
+        }
+        return this.scrollTo(targetScrollTop, animated)
     }
 }
 
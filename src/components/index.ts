@@ -9,14 +9,56 @@ export type {
     IItemScrollTop,
     ISubPage,
     SegmentNumType,
+    VirtualListDirection,
+    ColumnsType,
+    ListLayoutType,
+    MasonryLayout,
+    AxisKeys,
     VirtualListSegment,
     GetSegmentNumFunction,
     RenderItemFunction,
+    VirtualListSection,
+    SectionListEntry,
+    RenderSectionHeaderFunction,
+    VirtualListCoreMethods,
     RenderComponentFunction,
     ScrollEventHandler,
     UseVirtualListOptions,
     UseVirtualListReturn,
     ScrollInfo,
+    PendingPosition,
+    PersistedScrollState,
+    VisibleRange,
+    VisibleRangeChangeHandler,
+    ScrollAlign,
+    ScrollToOptions,
+    ViewabilityConfig,
+    ViewableItem,
+    ViewableItemsChangedHandler,
+    ItemRenderState,
+    SelectionMode,
+    SelectionChangeHandler,
+    ReorderHandler,
+    ItemAnimationConfig,
+    VirtualListScope,
+    PlatformAdapter,
+    NodeRect,
+    ScrollMetrics,
+    ObserveVisibilityOptions,
+    VisibilityEntry,
+    VisibilityObserver,
+    VirtualListSelectionMethods,
+    ListDiff,
+    ItemKey,
+    GetItemKeyFunction,
+    ItemHeightType,
+    FooterStatus,
+    FooterInfo,
+    RenderBottomFunction,
+    EndReachedThreshold,
+    LoadMoreFunction,
+    EndReachedHandler,
+    RenderRefresherFunction,
     PageInfo,
     QueryCacheItem,
     SelectorCacheMap,
@@ -32,3 +74,6 @@ export type {
 
 // 导出子组件
 export { VirtualItem } from './VirtualList/components/VirtualItem'
+
+// 导出内置平台适配器
+export { weappAdapter, taroAdapter, h5Adapter, getPlatformAdapter } from './VirtualList/utils/platformAdapter'
@@ -50,37 +50,15 @@ const Index: React.FC = () => {
             const currentScrollInfo = await listRef.current.getScrollInfo()
             setScrollInfo(currentScrollInfo)
 
-            // 获取高亮项的滚动位置信息
-            const itemScrollInfo = listRef.current.getItemScrollTop(highlightIndex)
+            // 根据可见范围判断高亮项的位置，占位页面中的项无需再估算
+            const { startIndex, endIndex } = listRef.current.getVisibleRange()
 
-            if (itemScrollInfo.rendered) {
-                const itemTop = itemScrollInfo.scrollTop
-                const itemBottom = itemTop + itemScrollInfo.height
-                const viewportTop = currentScrollInfo.scrollTop
-                const viewportBottom = viewportTop + currentScrollInfo.height
-
-                if (itemBottom < viewportTop) {
-                    setHighlightPosition('above')
-                } else if (itemTop > viewportBottom) {
-                    setHighlightPosition('below')
-                } else {
-                    setHighlightPosition('visible')
-                }
+            if (highlightIndex < startIndex) {
+                setHighlightPosition('above')
+            } else if (highlightIndex > endIndex) {
+                setHighlightPosition('below')
             } else {
-                // 未渲染项：根据页面位置和当前视口位置进行估算
-                const pageIndex = itemScrollInfo.pageIndex
-                const pageScrollInfo = listRef.current.getPageScrollTop(pageIndex)
-                const estimatedItemTop = pageScrollInfo.scrollTop
-                const estimatedItemBottom = estimatedItemTop + pageScrollInfo.height
-                const viewportTop = currentScrollInfo.scrollTop
-                const viewportBottom = viewportTop + currentScrollInfo.height
-                if (estimatedItemBottom < viewportTop) {
-                    setHighlightPosition('above')
-                } else if (estimatedItemTop > viewportBottom) {
-                    setHighlightPosition('below')
-                } else {
-                    setHighlightPosition('visible')
-                }
+                setHighlightPosition('visible')
             }
         } catch (error) {
             console.error('检查高亮项位置时出错:', error)